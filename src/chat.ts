@@ -1,35 +1,108 @@
+import type Anthropic from '@anthropic-ai/sdk';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
-import { chat } from './services/ai.js';
-import { generateFromInterview, listAvailableInterviews } from './generators/interview-profile.js';
+import {
+  generateFromInterview,
+  listAvailableInterviews,
+  reviseInterviewDraft,
+  checkInterviewDraftQuotes,
+  fixInterviewDraftQuotes,
+} from './generators/interview-profile.js';
 import { generateThemeRoundup, discoverThemes } from './generators/theme-roundup.js';
 import { generateFromInsight, discoverInsights } from './generators/insight-article.js';
 import { generateSEOContent, suggestSEOTopics } from './generators/seo-content.js';
-import { getExistingArticles } from './services/ghost.js';
+import { getIndexedArticles } from './services/article-index.js';
+import { compactChatSession, countTurns, saveChatSession, type ChatSession } from './services/chat-sessions.js';
+import { formatQuoteReport } from './services/quote-check.js';
+import { runAgentLoop } from './strands-agent/agent.js';
+import { CHAT_PROMPT } from './strands-agent/system-prompt.js';
+import { applyCompetitorPolicy } from './utils/blocklist.js';
+import { truncateText } from './utils/metadata.js';
+import { htmlToText, splitSections } from './utils/sections.js';
+import { diffLines } from './utils/diff.js';
+import {
+  getWorkingDraft,
+  getCurrentRevision,
+  listWorkingDrafts,
+  undoRevision,
+  discardWorkingDraft,
+  type WorkingDraft,
+} from './services/working-drafts.js';
+
+// One line per tool call, e.g. read_interview {"documentId":"abc"}
+function describeToolCall(name: string, input: Record<string, unknown>): string {
+  const args = Object.keys(input).length > 0 ? ` ${truncateText(JSON.stringify(input), 80)}` : '';
+  return `${name}${args}`;
+}
+
+function describeToolResult(result: string): string {
+  try {
+    const parsed = JSON.parse(result);
+    if (Array.isArray(parsed)) return `${parsed.length} result${parsed.length === 1 ? '' : 's'}`;
+    if (typeof parsed.message === 'string') return parsed.message;
+  } catch {
+    // Plain text output (e.g. research summaries)
+  }
+  return truncateText(result.replace(/\s+/g, ' '), 80);
+}
+
+// Replies go through the same competitor policy as drafts before the editor sees them
+function showReply(text: string): string {
+  return applyCompetitorPolicy(text).content;
+}
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
+// Last editor message and the reply to it, to pick up where a resumed session left off
+function printLastExchange(messages: Anthropic.MessageParam[]): void {
+  const lastQuestion = [...messages].reverse().find(m => m.role === 'user' && typeof m.content === 'string');
+  const lastReply = [...messages].reverse().find(m => m.role === 'assistant');
+  if (!lastQuestion) return;
+
+  console.log(chalk.green('You:'), lastQuestion.content);
+  if (lastReply) {
+    const reply = typeof lastReply.content === 'string'
+      ? lastReply.content
+      : lastReply.content.filter(b => b.type === 'text').map(b => (b as Anthropic.TextBlock).text).join('\n');
+    console.log(chalk.blue('Assistant:'), showReply(reply), '\n');
+  }
 }
 
-export async function startChat(config: { interviewsFolderId: string }): Promise<void> {
+/**
+ * Chat with the content assistant. The session (conversation, summary of older
+ * turns and any open working draft) is saved after every message, so it can be resumed.
+ */
+export async function startChat(
+  config: { interviewsFolderId: string; ideasFolderId?: string },
+  session: ChatSession
+): Promise<void> {
   console.log(chalk.cyan('\n==========================================='));
   console.log(chalk.cyan.bold("  Pretty's Perspectives Content Assistant  "));
   console.log(chalk.cyan('===========================================\n'));
 
-  console.log(chalk.gray('I can help you create articles for your Ghost blog.'));
-  console.log(chalk.gray('Type "help" for available commands, or just chat with me.\n'));
+  if (session.title) {
+    console.log(chalk.white(`Resuming "${session.title}"`) + chalk.gray(` (${session.id}, ${countTurns(session)} messages)\n`));
+    printLastExchange(session.messages);
+  } else {
+    console.log(chalk.gray('I can help you create articles for your Ghost blog.'));
+    console.log(chalk.gray('Type "help" for available commands, or just chat with me.\n'));
+  }
   console.log(chalk.gray('Type "exit" to quit.\n'));
 
-  const messages: Message[] = [];
+  // Source doc ID of the working draft being edited; while set, messages are revision requests
+  let activeDraft = session.activeDraft || null;
+  if (activeDraft) {
+    console.log(chalk.gray(`Editing the working draft for ${activeDraft} ("close" to stop).\n`));
+  }
 
   while (true) {
+    session.activeDraft = activeDraft;
+    saveChatSession(session);
+
     const { input } = await inquirer.prompt([
       {
         type: 'input',
         name: 'input',
-        message: chalk.green('You:'),
+        message: chalk.green(activeDraft ? 'You (draft):' : 'You:'),
         prefix: '',
       },
     ]);
@@ -37,6 +110,9 @@ export async function startChat(config: { interviewsFolderId: string }): Promise
     const trimmedInput = input.trim().toLowerCase();
 
     if (trimmedInput === 'exit' || trimmedInput === 'quit') {
+      if (session.title) {
+        console.log(chalk.gray(`Conversation saved - "chat --resume ${session.id}" to carry on.`));
+      }
       console.log(chalk.cyan('\nGoodbye! Happy content creating.\n'));
       break;
     }
@@ -46,6 +122,28 @@ export async function startChat(config: { interviewsFolderId: string }): Promise
       continue;
     }
 
+    if (activeDraft) {
+      activeDraft = await handleDraftInput(activeDraft, input.trim());
+      continue;
+    }
+
+    if (trimmedInput === 'drafts') {
+      handleListDrafts();
+      continue;
+    }
+
+    if (trimmedInput.startsWith('open ')) {
+      const docId = input.trim().slice('open '.length).trim();
+      const draft = getWorkingDraft(docId);
+      if (draft) {
+        printDraftOutline(draft);
+        activeDraft = docId;
+      } else {
+        console.log(chalk.yellow(`\nNo working draft for ${docId}. Use "drafts" to list them.\n`));
+      }
+      continue;
+    }
+
     if (trimmedInput === 'interviews') {
       await handleListInterviews(config.interviewsFolderId);
       continue;
@@ -73,7 +171,9 @@ export async function startChat(config: { interviewsFolderId: string }): Promise
 
     if (trimmedInput.startsWith('create interview ')) {
       const docId = input.trim().slice('create interview '.length).trim();
-      await handleCreateInterview(docId);
+      if (await handleCreateInterview(docId)) {
+        activeDraft = docId;
+      }
       continue;
     }
 
@@ -88,17 +188,49 @@ export async function startChat(config: { interviewsFolderId: string }): Promise
       continue;
     }
 
-    // Regular chat
+    // Regular chat, with the same tools as the content agent
     const spinner = ora('Thinking...').start();
 
     try {
-      messages.push({ role: 'user', content: input });
-      const response = await chat(messages);
-      messages.push({ role: 'assistant', content: response });
+      await compactChatSession(session);
+    } catch (error) {
+      // Carry on with the full history; it's tried again next message
+      console.error(chalk.gray(`\n(Could not summarize older messages: ${error instanceof Error ? error.message : error})`));
+    }
+
+    // The whole conversation, tool calls included, so follow-ups can build on earlier turns
+    const checkpoint = session.messages.length;
+
+    try {
+      session.messages.push({ role: 'user', content: input });
+      const response = await runAgentLoop(session.messages, {
+        folderId: config.interviewsFolderId,
+        ideasFolderId: config.ideasFolderId,
+        runId: session.id,
+        system: session.summary ? `${CHAT_PROMPT}\n\n## EARLIER IN THIS CONVERSATION\n${session.summary}` : CHAT_PROMPT,
+        task: 'chat',
+        hooks: {
+          onText: (text) => {
+            spinner.stop();
+            console.log(chalk.gray(`\n${showReply(text)}`));
+          },
+          onToolCall: (name, toolInput) => {
+            spinner.stop();
+            spinner.start(chalk.yellow(describeToolCall(name, toolInput)));
+          },
+          onToolResult: (_name, result, isError) => {
+            if (isError) spinner.fail(`${spinner.text} ${chalk.red(describeToolResult(result))}`);
+            else spinner.succeed(`${spinner.text} ${chalk.gray(describeToolResult(result))}`);
+            spinner.start('Thinking...');
+          },
+        },
+      });
 
       spinner.stop();
-      console.log(chalk.blue('\nAssistant:'), response, '\n');
+      console.log(chalk.blue('\nAssistant:'), showReply(response), '\n');
     } catch (error) {
+      // Drop the failed turn so the conversation can carry on without it
+      session.messages.length = checkpoint;
       spinner.fail('Error getting response');
       console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
     }
@@ -113,13 +245,29 @@ function printHelp(): void {
   console.log(chalk.yellow('existing') + '          - Show existing Ghost articles');
   console.log(chalk.yellow('seo-ideas') + '         - Get SEO article topic suggestions');
   console.log('');
-  console.log(chalk.yellow('create interview <doc-id>') + ' - Create article from interview');
+  console.log(chalk.yellow('create interview <doc-id>') + ' - Write an interview article as a working draft');
   console.log(chalk.yellow('create theme') + '              - Create theme roundup article');
   console.log(chalk.yellow('create seo <topic>') + '        - Create SEO-focused article');
+  console.log(chalk.yellow('drafts') + '                    - List working drafts');
+  console.log(chalk.yellow('open <doc-id>') + '             - Carry on editing a working draft');
+  console.log('');
+  console.log(chalk.cyan('While editing a draft:'));
+  console.log(chalk.gray('  Type a change (e.g. "shorten the intro") to revise it, or:'));
+  console.log(chalk.yellow('  show [n]') + '                - Outline, or section n in full');
+  console.log(chalk.yellow('  diff') + '                    - What the last revision changed');
+  console.log(chalk.yellow('  history') + '                 - All revisions');
+  console.log(chalk.yellow('  undo') + '                    - Go back to the previous revision');
+  console.log(chalk.yellow('  quotes') + '                  - Check the quotes against the interview');
+  console.log(chalk.yellow('  fix quotes') + '              - Use the exact interview text for reworded quotes');
+  console.log(chalk.yellow('  push') + '                    - Create the Ghost draft (asks first)');
+  console.log(chalk.yellow('  close') + '                   - Stop editing, keeping the working draft');
+  console.log(chalk.yellow('  discard') + '                 - Delete the working draft');
   console.log('');
   console.log(chalk.yellow('exit') + '              - Quit the assistant');
   console.log('');
-  console.log(chalk.gray('Or just type naturally to chat about content ideas!\n'));
+  console.log(chalk.gray('Or just ask in your own words - the assistant can read interviews and ideas, search'));
+  console.log(chalk.gray('Ghost and the web, and create or update drafts (e.g. "find every vendor who talked'));
+  console.log(chalk.gray('about pricing and draft a roundup").\n'));
 }
 
 async function handleListInterviews(folderId: string): Promise<void> {
@@ -203,7 +351,7 @@ async function handleListExisting(): Promise<void> {
   const spinner = ora('Fetching existing articles...').start();
 
   try {
-    const articles = await getExistingArticles();
+    const articles = await getIndexedArticles();
     spinner.stop();
 
     console.log(chalk.cyan(`\n--- ${articles.length} Existing Articles ---\n`));
@@ -235,25 +383,244 @@ function handleSEOIdeas(): void {
   console.log(chalk.gray('\nUse "create seo <topic>" to generate an article.\n'));
 }
 
-async function handleCreateInterview(docId: string): Promise<void> {
+// Generates into a working draft (a dry run) rather than Ghost; returns whether one was made
+async function handleCreateInterview(docId: string): Promise<boolean> {
   const spinner = ora('Generating interview article...').start();
 
   try {
-    const result = await generateFromInterview(docId, { verbose: false });
+    const result = await generateFromInterview(docId, { dryRun: true, useWorkingDraft: true, verbose: false });
     spinner.stop();
 
-    if (result.success) {
-      console.log(chalk.green(`\n✓ ${result.message}`));
-      if (result.articleUrl) {
-        console.log(chalk.cyan(`  View at: ${result.articleUrl}\n`));
-      }
-    } else {
+    const draft = result.success ? getWorkingDraft(docId) : null;
+    if (!draft) {
       console.log(chalk.yellow(`\n⚠ ${result.message}\n`));
+      return false;
     }
+
+    printDraftOutline(draft);
+    await printQuoteCheck(docId, true);
+    console.log(chalk.gray('Nothing is in Ghost yet. Ask for changes, or "push" when it\'s ready ("help" for more).\n'));
+    return true;
   } catch (error) {
     spinner.fail('Failed to create article');
     console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    return false;
+  }
+}
+
+// Quotes in the working draft that don't match the interview; `problemsOnly` stays quiet when they all do
+async function printQuoteCheck(docId: string, problemsOnly: boolean = false): Promise<void> {
+  try {
+    const report = await checkInterviewDraftQuotes(docId);
+    if (report.problems.length === 0) {
+      if (!problemsOnly) console.log(chalk.green(`\n${formatQuoteReport(report)}\n`));
+      return;
+    }
+
+    console.log(chalk.yellow(`${formatQuoteReport(report)}\n`));
+    if (report.problems.some(problem => problem.status === 'paraphrased')) {
+      console.log(chalk.gray('Type "fix quotes" to use the exact interview text.\n'));
+    }
+  } catch (error) {
+    console.log(chalk.yellow(`\nCould not check quotes: ${error instanceof Error ? error.message : 'Unknown error'}\n`));
+  }
+}
+
+function printDraftOutline(draft: WorkingDraft): void {
+  const { article, excerpt } = getCurrentRevision(draft);
+
+  console.log(chalk.cyan(`\n--- ${article.title} ---`));
+  console.log(chalk.gray(`  ${draft.sourceTitle} · revision ${draft.revisions.length - 1} · ${new Date(draft.updatedAt).toLocaleString()}`));
+  console.log(chalk.gray(`  Tags: ${(article.tags || []).join(', ')}`));
+  console.log(chalk.gray(`  Excerpt: ${excerpt}\n`));
+
+  splitSections(article.html).forEach((section, i) => {
+    const words = htmlToText(section.html).split(/\s+/).length;
+    console.log(chalk.white(`  ${i + 1}. ${section.title}`) + chalk.gray(` (${words} words)`));
+  });
+  console.log('');
+}
+
+function printSection(draft: WorkingDraft, number: number): void {
+  const sections = splitSections(getCurrentRevision(draft).article.html);
+  const section = sections[number - 1];
+
+  if (!section) {
+    console.log(chalk.yellow(`\nThere are ${sections.length} sections.\n`));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n--- ${number}. ${section.title} ---\n`));
+  console.log(htmlToText(section.html), '\n');
+}
+
+// Changed lines of one revision against the one before it
+function printRevisionDiff(draft: WorkingDraft, index: number = draft.revisions.length - 1): void {
+  if (index < 1) {
+    console.log(chalk.gray('\nThis is the first version - nothing to compare against.\n'));
+    return;
+  }
+
+  const before = draft.revisions[index - 1];
+  const after = draft.revisions[index];
+  console.log(chalk.cyan(`\n--- Revision ${index}: ${after.instruction} ---\n`));
+
+  const fields: Array<[string, string | undefined, string | undefined]> = [
+    ['Title', before.article.title, after.article.title],
+    ['Excerpt', before.excerpt, after.excerpt],
+    ['Tags', before.article.tags?.join(', '), after.article.tags?.join(', ')],
+  ];
+  for (const [name, was, now] of fields) {
+    if (was !== now) {
+      console.log(chalk.red(`  - ${name}: ${was || ''}`));
+      console.log(chalk.green(`  + ${name}: ${now || ''}`));
+    }
+  }
+
+  const diff = diffLines(htmlToText(before.article.html), htmlToText(after.article.html));
+  const changed = diff.filter(line => line.type !== 'same');
+
+  if (changed.length === 0) {
+    console.log(chalk.gray('  No changes to the body.'));
+  }
+  for (const line of changed) {
+    console.log(line.type === 'added' ? chalk.green(`  + ${line.text}`) : chalk.red(`  - ${line.text}`));
+  }
+  console.log('');
+}
+
+function handleListDrafts(): void {
+  const drafts = listWorkingDrafts();
+
+  if (drafts.length === 0) {
+    console.log(chalk.yellow('\nNo working drafts. Start one with "create interview <doc-id>".\n'));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n--- ${drafts.length} Working Drafts ---\n`));
+  for (const draft of drafts) {
+    console.log(chalk.white(`  ${draft.sourceId}`));
+    console.log(chalk.gray(`    ${getCurrentRevision(draft).article.title}`));
+    console.log(chalk.gray(`    ${draft.revisions.length - 1} revision(s) · ${new Date(draft.updatedAt).toLocaleString()}`));
+    console.log('');
+  }
+}
+
+/**
+ * Handle one message while a working draft is open. Returns the draft that is
+ * still open afterwards (null once it's pushed, closed or discarded).
+ */
+async function handleDraftInput(docId: string, input: string): Promise<string | null> {
+  const draft = getWorkingDraft(docId);
+  if (!draft) {
+    console.log(chalk.yellow('\nThe working draft is gone (pushed or discarded elsewhere).\n'));
+    return null;
+  }
+
+  const command = input.toLowerCase();
+
+  if (command === 'show') {
+    printDraftOutline(draft);
+    return docId;
+  }
+
+  const sectionMatch = command.match(/^show (\d+)$/);
+  if (sectionMatch) {
+    printSection(draft, parseInt(sectionMatch[1]));
+    return docId;
+  }
+
+  if (command === 'diff') {
+    printRevisionDiff(draft);
+    return docId;
+  }
+
+  if (command === 'history') {
+    console.log(chalk.cyan('\n--- Revisions ---\n'));
+    draft.revisions.forEach((revision, i) => {
+      console.log(chalk.white(`  ${i}. ${revision.instruction || 'Generated from the interview'}`) +
+        chalk.gray(` (${new Date(revision.createdAt).toLocaleString()})`));
+    });
+    console.log('');
+    return docId;
+  }
+
+  if (command === 'undo') {
+    try {
+      printDraftOutline(undoRevision(draft));
+    } catch (error) {
+      console.log(chalk.yellow(`\n${error instanceof Error ? error.message : 'Nothing to undo'}\n`));
+    }
+    return docId;
+  }
+
+  if (command === 'quotes') {
+    await printQuoteCheck(docId);
+    return docId;
+  }
+
+  if (command === 'fix quotes') {
+    const spinner = ora('Fixing quotes...').start();
+    const result = await fixInterviewDraftQuotes(docId);
+    spinner.stop();
+
+    if (result.success && result.draft) {
+      printRevisionDiff(result.draft);
+    } else {
+      console.log(chalk.yellow(`\n⚠ ${result.message}\n`));
+    }
+    return docId;
+  }
+
+  if (command === 'close') {
+    console.log(chalk.gray(`\nWorking draft kept - "open ${docId}" to carry on.\n`));
+    return null;
+  }
+
+  if (command === 'discard' || command === 'push') {
+    const title = getCurrentRevision(draft).article.title;
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: command === 'push' ? `Create "${title}" as a draft in Ghost?` : `Delete the working draft "${title}"?`,
+        default: command === 'push',
+      },
+    ]);
+    if (!confirmed) return docId;
+
+    if (command === 'discard') {
+      discardWorkingDraft(docId);
+      console.log(chalk.gray('\nWorking draft deleted.\n'));
+      return null;
+    }
+
+    const spinner = ora('Creating draft in Ghost...').start();
+    const result = await generateFromInterview(docId, { useWorkingDraft: true, verbose: false });
+    spinner.stop();
+
+    if (!result.success) {
+      console.log(chalk.yellow(`\n⚠ ${result.message}\n`));
+      return docId;
+    }
+    console.log(chalk.green(`\n✓ ${result.message}`));
+    if (result.articleUrl) {
+      console.log(chalk.cyan(`  View at: ${result.articleUrl}\n`));
+    }
+    return null;
+  }
+
+  // Anything else is a change to make
+  const spinner = ora('Revising...').start();
+  const result = await reviseInterviewDraft(docId, input);
+  spinner.stop();
+
+  if (result.success && result.draft) {
+    printRevisionDiff(result.draft);
+  } else {
+    console.log(chalk.yellow(`\n⚠ ${result.message}\n`));
   }
+  return docId;
 }
 
 async function handleCreateTheme(folderId: string): Promise<void> {
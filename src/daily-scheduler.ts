@@ -5,14 +5,48 @@ import { config } from 'dotenv';
 config();
 
 import { initGoogleClients, listInterviews, listArticleIdeas, getIdea } from './services/google-docs.js';
-import { initGhostClient, getExistingArticles } from './services/ghost.js';
+import { initGhostClient } from './services/ghost.js';
+import { loadSimilarityIndex } from './services/duplicates.js';
 import { initAIClient } from './services/ai.js';
 import { initResearchService } from './services/research.js';
 import { runContentAgent } from './strands-agent/agent.js';
-import type { ExistingArticle } from './types/index.js';
+import {
+  getSourceRecord,
+  recordSource,
+  isSourceHandled,
+  needsSeeding,
+  seedFromExistingArticles,
+  newRunId,
+  type SourceStatus,
+  type SourceType,
+} from './services/state-store.js';
+import { findChangedSources } from './services/source-changes.js';
+import { updateFromChangedSource } from './generators/source-update.js';
+import { getSandboxDir, initSandbox } from './services/sandbox/setup.js';
+import { initFixtures } from './services/fixtures.js';
+import { formatEditorFeedback, isApprovalRequired, listApprovals } from './services/approvals.js';
+import { startUsageRun, isBudgetExceeded, withArticleUsage, getRunUsage, formatUsage } from './services/usage.js';
+import { truncateText } from './utils/metadata.js';
+import type { ArticleIdea, Interview } from './types/index.js';
+
+// Update linked drafts automatically when their source doc is edited, instead of only reporting
+const AUTO_UPDATE_CHANGED_SOURCES = process.env.AUTO_UPDATE_CHANGED_SOURCES === 'true';
+
+// Local stand-ins for Ghost, Drive and search (--sandbox or SANDBOX_DIR)
+const SANDBOX_DIR = getSandboxDir(process.argv.includes('--sandbox'));
 
 async function initServices(): Promise<boolean> {
   try {
+    // RECORD_FIXTURES / REPLAY_FIXTURES
+    initFixtures();
+
+    if (SANDBOX_DIR) {
+      initSandbox(SANDBOX_DIR);
+      initAIClient(process.env.ANTHROPIC_API_KEY!);
+      console.log(`Sandbox mode: using ${SANDBOX_DIR}`);
+      return true;
+    }
+
     initGhostClient({
       url: process.env.GHOST_URL!,
       key: process.env.GHOST_ADMIN_API_KEY!,
@@ -35,42 +69,52 @@ async function initServices(): Promise<boolean> {
   }
 }
 
-// Extract key terms from interview title for matching
-function extractInterviewKeyTerms(interviewTitle: string): string[] {
-  // "Nigel - Gloster House Interview" -> ["nigel", "gloster", "house"]
-  // "Tiffany (Hunter Ryan) Interview" -> ["tiffany", "hunter", "ryan"]
-  const cleaned = interviewTitle
-    .replace(/\s*interview\s*/gi, '')
-    .replace(/[()]/g, ' ')
-    .replace(/[-–—]/g, ' ')
-    .toLowerCase();
-
-  return cleaned.split(/\s+/).filter(word => word.length > 2);
+// Record the outcome of an agent run for a source, unless the agent's tools already recorded
+// it this run: create_draft as generated (or pending approval), check_duplicate as skipped
+function recordAgentOutcome(
+  source: { id: string; title: string },
+  sourceType: SourceType,
+  runId: string,
+  note: string
+): SourceStatus {
+  const record = getSourceRecord(source.id);
+  if (record?.runId === runId && record.status !== 'failed') {
+    return record.status;
+  }
+
+  recordSource({
+    sourceId: source.id,
+    sourceType,
+    sourceTitle: source.title,
+    status: 'failed',
+    runId,
+    note,
+  });
+  return 'failed';
 }
 
-// Check if an article title contains key terms from interview
-function articleMatchesInterview(articleTitle: string, interviewKeyTerms: string[]): boolean {
-  const articleLower = articleTitle.toLowerCase();
-  // Need at least one key term to match
-  return interviewKeyTerms.some(term => articleLower.includes(term));
+// Log an agent run's outcome, returning whether it produced a draft
+function reportAgentOutcome(status: SourceStatus, sourceId: string): boolean {
+  if (status === 'skipped') {
+    console.log(`  ℹ Already covered - skipped (${getSourceRecord(sourceId)?.note})`);
+    return false;
+  }
+  if (status === 'failed') {
+    console.log(`  ⚠ Agent finished without creating a draft`);
+    return false;
+  }
+  console.log(`  ✓ Agent completed`);
+  return true;
 }
 
-async function processNewInterviews(existingArticles: ExistingArticle[]): Promise<number> {
+async function processNewInterviews(interviews: Interview[], runId: string): Promise<number> {
   console.log('\n👤 Checking for New Interviews...');
 
-  const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID!;
-  const interviews = await listInterviews(folderId);
-
   // Find interviews that don't already have an article in Ghost
   const newInterviews = interviews.filter(interview => {
-    const keyTerms = extractInterviewKeyTerms(interview.title);
-
-    const hasExistingArticle = existingArticles.some(article =>
-      articleMatchesInterview(article.title, keyTerms)
-    );
-
-    if (hasExistingArticle) {
-      console.log(`  ℹ "${interview.title}" - already has article in Ghost`);
+    if (isSourceHandled(interview.id)) {
+      const record = getSourceRecord(interview.id)!;
+      console.log(`  ℹ "${interview.title}" - already ${record.status}${record.postId ? ` (post ${record.postId})` : ''}`);
       return false;
     }
 
@@ -83,54 +127,44 @@ async function processNewInterviews(existingArticles: ExistingArticle[]): Promis
   }
 
   let processedCount = 0;
+  const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID!;
   const ideasFolderId = process.env.GOOGLE_IDEAS_FOLDER_ID;
 
   for (const interview of newInterviews) {
+    if (isBudgetExceeded()) {
+      console.log('  ⚠ Usage budget reached - leaving the rest for the next run');
+      break;
+    }
+
     console.log(`  Found new interview: ${interview.title}`);
 
     // Use the agent to process the interview
     const agentRequest = `Create an article from the interview "${interview.title}" (document ID: ${interview.id}).
 
 Follow the standard interview article workflow:
-1. Check for duplicates first
+1. Check for duplicates first, passing interviewId "${interview.id}"
 2. Read the interview content
 3. Generate the article in the correct Pretty Perspectives HTML format
-4. Create the draft in Ghost`;
+4. Create the draft in Ghost, passing interviewId "${interview.id}"${formatEditorFeedback(interview.id)}`;
 
     try {
-      const result = await runContentAgent(agentRequest, folderId, ideasFolderId);
-      console.log(`  ✓ Agent completed`);
-      processedCount++;
+      const result = await withArticleUsage(interview.title, () =>
+        runContentAgent(agentRequest, folderId, ideasFolderId, { runId })
+      );
+      if (reportAgentOutcome(recordAgentOutcome(interview, 'interview', runId, truncateText(result, 500)), interview.id)) {
+        processedCount++;
+      }
     } catch (error) {
-      console.log(`  ⚠ Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      recordAgentOutcome(interview, 'interview', runId, message);
+      console.log(`  ⚠ Failed: ${message}`);
     }
   }
 
   return processedCount;
 }
 
-// Extract key terms from idea title for matching
-function extractIdeaKeyTerms(ideaTitle: string): string[] {
-  // "Piece on AI tools" -> ["piece", "ai", "tools"]
-  const cleaned = ideaTitle
-    .replace(/[()]/g, ' ')
-    .replace(/[-–—]/g, ' ')
-    .toLowerCase();
-
-  // Filter out common words
-  const stopWords = ['piece', 'on', 'about', 'the', 'a', 'an', 'for', 'and', 'or', 'article'];
-  return cleaned.split(/\s+/).filter(word => word.length > 2 && !stopWords.includes(word));
-}
-
-// Check if an article title contains key terms from idea
-function articleMatchesIdea(articleTitle: string, ideaKeyTerms: string[]): boolean {
-  const articleLower = articleTitle.toLowerCase();
-  // Need at least half of key terms to match
-  const matchCount = ideaKeyTerms.filter(term => articleLower.includes(term)).length;
-  return matchCount >= Math.ceil(ideaKeyTerms.length / 2);
-}
-
-async function processNewIdeas(existingArticles: ExistingArticle[]): Promise<number> {
+async function processNewIdeas(ideas: ArticleIdea[], runId: string): Promise<number> {
   console.log('\n💡 Checking for New Ideas...');
 
   const ideasFolderId = process.env.GOOGLE_IDEAS_FOLDER_ID;
@@ -139,18 +173,11 @@ async function processNewIdeas(existingArticles: ExistingArticle[]): Promise<num
     return 0;
   }
 
-  const ideas = await listArticleIdeas(ideasFolderId);
-
   // Find ideas that don't already have an article in Ghost
   const newIdeas = ideas.filter(idea => {
-    const keyTerms = extractIdeaKeyTerms(idea.title);
-
-    const hasExistingArticle = existingArticles.some(article =>
-      articleMatchesIdea(article.title, keyTerms)
-    );
-
-    if (hasExistingArticle) {
-      console.log(`  ℹ "${idea.title}" - already has article in Ghost`);
+    if (isSourceHandled(idea.id)) {
+      const record = getSourceRecord(idea.id)!;
+      console.log(`  ℹ "${idea.title}" - already ${record.status}${record.postId ? ` (post ${record.postId})` : ''}`);
       return false;
     }
 
@@ -166,6 +193,11 @@ async function processNewIdeas(existingArticles: ExistingArticle[]): Promise<num
   const interviewsFolderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID!;
 
   for (const ideaSummary of newIdeas) {
+    if (isBudgetExceeded()) {
+      console.log('  ⚠ Usage budget reached - leaving the rest for the next run');
+      break;
+    }
+
     console.log(`  Found new idea: ${ideaSummary.title}`);
 
     // Read the full idea content
@@ -180,7 +212,7 @@ Title: ${idea.title}
 Instructions: ${idea.content}
 
 ## Required Workflow
-1. **Check for duplicates first** - Use check_duplicate with the topic/title to make sure we haven't already written about this
+1. **Check for duplicates first** - Use check_duplicate with the topic/title and ideaId "${idea.id}" to make sure we haven't already written about this
 2. **Search ALL interviews for relevant quotes** - Use search_interviews with keywords related to the topic (e.g. for an AI article, search "AI", "artificial intelligence", "technology", "automation"). This returns matching snippets from every interview that mentions the topic. You MUST include quotes from ALL vendors who have relevant perspectives.
 3. **Read full interviews for context** - For each vendor returned by search_interviews, use read_interview to get fuller context around their quotes if the snippets aren't sufficient
 4. **Research the topic** - Use web_search to find current trends, statistics, and insights (search for "[topic] wedding industry 2026" or similar)
@@ -193,22 +225,70 @@ Instructions: ${idea.content}
    - When citing web research, link to the original source with <a href="URL" target="_blank">Source Name</a>
    - Use bullet lists for takeaways
    - End with "The Bottom Line" section
-6. **Create the draft** - Use create_draft with title, full HTML, excerpt, metaDescription, and tags
+6. **Create the draft** - Use create_draft with title, full HTML, excerpt, metaDescription, tags, and ideaId "${idea.id}"
 
-CRITICAL: Include quotes/insights from ALL relevant vendors found in interviews. Do not cherry-pick just 1-2 vendors. Never fabricate statistics.`;
+CRITICAL: Include quotes/insights from ALL relevant vendors found in interviews. Do not cherry-pick just 1-2 vendors. Never fabricate statistics.${formatEditorFeedback(idea.id)}`;
 
     try {
-      const result = await runContentAgent(agentRequest, interviewsFolderId, ideasFolderId);
-      console.log(`  ✓ Agent completed`);
-      processedCount++;
+      const result = await withArticleUsage(idea.title, () =>
+        runContentAgent(agentRequest, interviewsFolderId, ideasFolderId, { runId })
+      );
+      if (reportAgentOutcome(recordAgentOutcome(idea, 'idea', runId, truncateText(result, 500)), idea.id)) {
+        processedCount++;
+      }
     } catch (error) {
-      console.log(`  ⚠ Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      recordAgentOutcome(idea, 'idea', runId, message);
+      console.log(`  ⚠ Failed: ${message}`);
     }
   }
 
   return processedCount;
 }
 
+async function processChangedSources(
+  sources: Array<{ id: string; modifiedAt?: Date }>,
+  runId: string
+): Promise<number> {
+  console.log('\n✏️  Checking for Edited Sources...');
+
+  const changes = await findChangedSources(sources);
+
+  if (changes.length === 0) {
+    console.log('  ℹ No sources edited since their articles were generated');
+    return 0;
+  }
+
+  let updatedCount = 0;
+
+  for (const change of changes) {
+    console.log(`  "${change.record.sourceTitle}" changed ${change.modifiedAt.toLocaleString()} (post ${change.record.postId})`);
+    console.log(change.summary.split('\n').map(line => `    ${line}`).join('\n'));
+
+    if (!AUTO_UPDATE_CHANGED_SOURCES) continue;
+    if (isBudgetExceeded()) {
+      console.log('  ⚠ Usage budget reached - leaving the rest for the next run');
+      break;
+    }
+
+    const result = await withArticleUsage(change.record.sourceTitle, () =>
+      updateFromChangedSource(change, { runId })
+    );
+    if (result.success) {
+      console.log(`  ✓ ${isApprovalRequired() ? 'Draft update queued for approval' : 'Draft updated'}`);
+      updatedCount++;
+    } else {
+      console.log(`  ⚠ ${result.message}`);
+    }
+  }
+
+  if (!AUTO_UPDATE_CHANGED_SOURCES) {
+    console.log('  Run `ghost-agent changes` to update these drafts or mark them reviewed.');
+  }
+
+  return updatedCount;
+}
+
 async function runDailyCheck(): Promise<void> {
   console.log('═══════════════════════════════════════════════════');
   console.log('  Pretty Perspectives Daily Content Check');
@@ -221,23 +301,44 @@ async function runDailyCheck(): Promise<void> {
     process.exit(1);
   }
 
-  // Fetch ALL existing articles (drafts + published) to check for duplicates
-  console.log('\n📋 Loading existing articles (drafts + published)...');
-  const existingArticles = await getExistingArticles();
-  console.log(`  Found ${existingArticles.length} existing articles`);
+  const runId = newRunId('daily');
+  startUsageRun(runId, 'daily');
+  console.log(`\nRun ${runId}`);
 
   try {
+    const interviews = await listInterviews(process.env.GOOGLE_INTERVIEWS_FOLDER_ID!);
+    const ideasFolderId = process.env.GOOGLE_IDEAS_FOLDER_ID;
+    const ideas = ideasFolderId ? await listArticleIdeas(ideasFolderId) : [];
+
+    // Sources that got posts before the state store tracked them (checked once per type)
+    if (needsSeeding(ideas.length > 0 ? ['interview', 'idea'] : ['interview'])) {
+      console.log('\n📋 Seeding content state from existing articles (drafts + published)...');
+      const existingArticles = await loadSimilarityIndex();
+      const seeded = seedFromExistingArticles([
+        ...interviews.map(i => ({ id: i.id, title: i.title, type: 'interview' as const })),
+        ...ideas.map(i => ({ id: i.id, title: i.title, type: 'idea' as const })),
+      ], existingArticles);
+      console.log(`  Marked ${seeded} sources as already covered`);
+    }
+
     // 1. Check for new interviews
-    const newInterviewCount = await processNewInterviews(existingArticles);
+    const newInterviewCount = await processNewInterviews(interviews, runId);
 
     // 2. Check for new ideas
-    const newIdeaCount = await processNewIdeas(existingArticles);
+    const newIdeaCount = await processNewIdeas(ideas, runId);
+
+    // 3. Flag (or update) drafts whose source doc was edited
+    const updatedCount = await processChangedSources([...interviews, ...ideas], runId);
 
     console.log('\n═══════════════════════════════════════════════════');
     console.log(`  Daily check complete!`);
     console.log(`  New interviews processed: ${newInterviewCount}`);
     console.log(`  New ideas processed: ${newIdeaCount}`);
-    if (newInterviewCount > 0 || newIdeaCount > 0) {
+    console.log(`  Drafts updated from edited sources: ${updatedCount}`);
+    console.log(`  Usage: ${formatUsage(getRunUsage())}`);
+    if (isApprovalRequired()) {
+      console.log(`  Waiting for approval: ${listApprovals('pending').length} (run \`ghost-agent review\`)`);
+    } else if (newInterviewCount > 0 || newIdeaCount > 0 || updatedCount > 0) {
       console.log('  Check Ghost admin for new drafts.');
     }
     console.log('═══════════════════════════════════════════════════\n');
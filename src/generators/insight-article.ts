@@ -1,8 +1,11 @@
 import { getAllInterviewsWithContent, getInterview } from '../services/google-docs.js';
-import { checkArticleExists, createDraftArticle } from '../services/ghost.js';
+import { createDraftArticle } from '../services/ghost.js';
+import { checkForDuplicates, formatMatch } from '../services/duplicates.js';
+import { checkClaims, formatFactCheckReport, getFactCheckMode } from '../services/fact-check.js';
 import { generateInsightArticle, extractInsightsFromInterview } from '../services/ai.js';
+import { withArticleUsage } from '../services/usage.js';
 import { researchTopic, isResearchAvailable } from '../services/research.js';
-import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags } from '../utils/metadata.js';
+import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags, truncateText } from '../utils/metadata.js';
 import type { GeneratorOptions } from '../types/index.js';
 
 export interface InsightSuggestion {
@@ -45,15 +48,15 @@ export async function generateFromInsight(
   insight: string,
   vendorName: string,
   options: GeneratorOptions = {}
-): Promise<{ success: boolean; message: string; articleUrl?: string }> {
+): Promise<{ success: boolean; message: string; articleUrl?: string; postId?: string }> {
   try {
     // Check for duplicates
     if (options.verbose) console.log('Checking for existing articles...');
-    const exists = await checkArticleExists(insight.slice(0, 50));
-    if (exists) {
+    const duplicates = await checkForDuplicates(insight);
+    if (duplicates.isDuplicate) {
       return {
         success: false,
-        message: 'A similar article may already exist. Check Ghost for duplicates.',
+        message: `A similar article already exists: ${formatMatch(duplicates.matches[0])}`,
       };
     }
 
@@ -61,12 +64,18 @@ export async function generateFromInsight(
     let researchContext = 'No additional research available.';
     if (isResearchAvailable()) {
       if (options.verbose) console.log('Researching topic...');
-      researchContext = await researchTopic(insight);
+      try {
+        researchContext = await researchTopic(insight);
+      } catch (error) {
+        console.warn(`Research failed, writing without it: ${error instanceof Error ? error.message : error}`);
+      }
     }
 
     // Generate the article
     if (options.verbose) console.log('Generating article...');
-    const result = await generateInsightArticle(insight, vendorName, researchContext);
+    const result = await withArticleUsage(truncateText(insight, 80), () =>
+      generateInsightArticle(insight, vendorName, researchContext)
+    );
 
     // Enhance metadata
     const article = result.article;
@@ -78,10 +87,24 @@ export async function generateFromInsight(
     const autoTags = suggestTags(article.html);
     article.tags = [...new Set([...(article.tags || []), ...autoTags, 'insights'])];
 
+    // Every figure and finding has to come from the research the article was written from
+    const factCheck = getFactCheckMode() === 'off' ? null : checkClaims(article.html, [
+      { label: 'research', text: researchContext },
+      { label: 'insight', text: insight },
+    ]);
+    const factCheckNote = factCheck?.unsupported.length ? `\n${formatFactCheckReport(factCheck)}` : '';
+
     if (options.dryRun) {
       return {
         success: true,
-        message: `[DRY RUN] Would create insight article: "${article.title}"\nBased on insight from ${vendorName}\nTags: ${article.tags?.join(', ')}`,
+        message: `[DRY RUN] Would create insight article: "${article.title}"\nBased on insight from ${vendorName}\nTags: ${article.tags?.join(', ')}${factCheckNote}`,
+      };
+    }
+
+    if (factCheckNote && getFactCheckMode() === 'block') {
+      return {
+        success: false,
+        message: `Draft not created for "${article.title}".${factCheckNote}`,
       };
     }
 
@@ -91,8 +114,9 @@ export async function generateFromInsight(
 
     return {
       success: true,
-      message: `Created insight article: "${article.title}"`,
+      message: `Created insight article: "${article.title}"${factCheckNote}`,
       articleUrl: ghostResult.url,
+      postId: ghostResult.id,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
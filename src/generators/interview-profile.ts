@@ -1,66 +1,90 @@
 import { getInterview, listInterviews } from '../services/google-docs.js';
-import { checkArticleExists, createDraftArticle } from '../services/ghost.js';
-import { generateInterviewArticle } from '../services/ai.js';
+import { createDraftArticle, getArticle, updateDraftArticle } from '../services/ghost.js';
+import { checkForDuplicates, formatMatch } from '../services/duplicates.js';
+import { applyQuoteFixes, checkQuotes, formatQuoteReport, getQuoteCheckMode, type QuoteCheckReport } from '../services/quote-check.js';
+import { generateInterviewArticle, reviseArticle } from '../services/ai.js';
+import { withArticleUsage } from '../services/usage.js';
+import { attachInterviewImages } from '../services/images.js';
+import { recordSource, newRunId, saveSourceSnapshot } from '../services/state-store.js';
+import { snapshotSource } from '../services/source-changes.js';
+import {
+  getWorkingDraft,
+  getCurrentRevision,
+  startWorkingDraft,
+  addRevision,
+  discardWorkingDraft,
+  type WorkingDraft,
+} from '../services/working-drafts.js';
+import { formatInterviewTranscript } from '../utils/interview-parser.js';
 import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags } from '../utils/metadata.js';
-import type { Interview, GeneratorOptions, Article } from '../types/index.js';
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { htmlToText } from '../utils/sections.js';
+import type { Interview, GeneratorOptions, InterviewGeneratorOptions, Article } from '../types/index.js';
 
-// Cache generated content to ensure preview matches final upload
-const CACHE_DIR = '/tmp/ghost-agent-cache';
-const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+async function buildInterviewArticle(interview: Interview): Promise<{ article: Article; excerpt: string }> {
+  const result = await withArticleUsage(interview.title, () => generateInterviewArticle(interview));
 
-function getCachePath(documentId: string): string {
-  return `${CACHE_DIR}/${documentId}.json`;
-}
+  // Enhance metadata
+  const article = result.article;
+  const vendorName = interview.vendorName || interview.title;
+  article.slug = generateSlug(article.title || vendorName);
+  article.metaTitle = article.metaTitle || generateMetaTitle(article.title);
+  article.metaDescription = article.metaDescription || generateMetaDescription(result.excerpt);
 
-function getCachedArticle(documentId: string): { article: Article; excerpt: string } | null {
-  try {
-    const path = getCachePath(documentId);
-    if (!existsSync(path)) return null;
+  // Add/merge tags
+  const autoTags = suggestTags(interview.content, interview.vendorType);
+  article.tags = [...new Set([...(article.tags || []), ...autoTags])];
 
-    const data = JSON.parse(readFileSync(path, 'utf-8'));
-    if (Date.now() - data.timestamp > CACHE_TTL) return null;
+  return { article, excerpt: result.excerpt };
+}
 
-    return { article: data.article, excerpt: data.excerpt };
-  } catch {
-    return null;
-  }
+// Quote problems to report, or '' when the quotes match (or checking is off)
+function quoteNote(report: QuoteCheckReport | null, documentId?: string): string {
+  if (!report?.problems.length) return '';
+  const fix = documentId && report.problems.some(problem => problem.status === 'paraphrased' && problem.fixable)
+    ? `\nRun "interview ${documentId} --fix-quotes" (or "fix quotes" while editing it in chat) to use the exact interview text.`
+    : '';
+  return `\n\n${formatQuoteReport(report)}${fix}`;
 }
 
-function cacheArticle(documentId: string, article: Article, excerpt: string): void {
-  try {
-    if (!existsSync(CACHE_DIR)) {
-      mkdirSync(CACHE_DIR, { recursive: true });
-    }
-    writeFileSync(getCachePath(documentId), JSON.stringify({
-      article,
-      excerpt,
-      timestamp: Date.now()
-    }));
-  } catch (e) {
-    console.error('Failed to cache article:', e);
-  }
+async function checkArticleQuotes(article: Article, interview: Interview | string): Promise<QuoteCheckReport | null> {
+  if (getQuoteCheckMode() === 'off') return null;
+  return checkQuotes(article.html, [typeof interview === 'string' ? await getInterview(interview) : interview]);
 }
 
+/**
+ * Generate an interview article and create it as a Ghost draft. Working drafts
+ * are only uploaded when an editor confirms one (`useWorkingDraft`), so the
+ * schedulers never push a preview or chat draft nobody has signed off on.
+ */
 export async function generateFromInterview(
   documentId: string,
-  options: GeneratorOptions = {}
-): Promise<{ success: boolean; message: string; articleUrl?: string; preview?: string }> {
+  options: InterviewGeneratorOptions = {}
+): Promise<{ success: boolean; message: string; articleUrl?: string; postId?: string; preview?: string; duplicate?: boolean }> {
   try {
-    // Check cache first - use cached content if available (ensures preview = final)
-    const cached = getCachedArticle(documentId);
+    const workingDraft = getWorkingDraft(documentId);
+    const pushWorkingDraft = options.useWorkingDraft && !options.dryRun;
 
     let article: Article;
     let excerpt: string;
+    let sourceTitle: string | undefined;
+    let interview: Interview | undefined;
+    // Set when a dry run leaves an existing working draft alone
+    let keptDraftNote = '';
 
-    if (cached && !options.dryRun) {
-      // Use cached content for final upload (matches what user previewed)
-      article = cached.article;
-      excerpt = cached.excerpt;
+    if (pushWorkingDraft) {
+      if (!workingDraft) {
+        return {
+          success: false,
+          message: `No working draft for ${documentId}. Preview it first with a dry run, or create it in chat.`,
+        };
+      }
+      ({ article, excerpt } = getCurrentRevision(workingDraft));
+      sourceTitle = workingDraft.sourceTitle;
     } else {
       // Fetch the interview
       if (options.verbose) console.log('Fetching interview document...');
-      const interview = await getInterview(documentId);
+      interview = await getInterview(documentId);
+      sourceTitle = interview.title;
 
       if (!interview.content || interview.content.trim().length < 100) {
         return {
@@ -71,24 +95,23 @@ export async function generateFromInterview(
 
       // Generate the article
       if (options.verbose) console.log('Generating article with AI...');
-      const result = await generateInterviewArticle(interview);
-
-      // Enhance metadata
-      article = result.article;
-      const vendorName = interview.vendorName || interview.title;
-      article.slug = generateSlug(article.title || vendorName);
-      article.metaTitle = article.metaTitle || generateMetaTitle(article.title);
-      article.metaDescription = article.metaDescription || generateMetaDescription(result.excerpt);
-
-      // Add/merge tags
-      const autoTags = suggestTags(interview.content, interview.vendorType);
-      article.tags = [...new Set([...(article.tags || []), ...autoTags])];
-      excerpt = result.excerpt;
-
-      // Cache for later confirmation
-      cacheArticle(documentId, article, excerpt);
+      ({ article, excerpt } = await buildInterviewArticle(interview));
+
+      // A preview is kept as a working draft until it's confirmed, but never replaces
+      // one an editor is still working on unless they asked for a fresh one
+      if (options.dryRun) {
+        if (!workingDraft || options.useWorkingDraft) {
+          startWorkingDraft({ id: documentId, type: 'interview', title: interview.title }, article, excerpt);
+        } else {
+          keptDraftNote = `\n\nA working draft for this interview (last changed ${workingDraft.updatedAt}) was left as it is, so this preview wasn't saved. Open it in chat, or discard it there first.`;
+        }
+      }
     }
 
+    // Every quote has to be word for word from the interview
+    if (options.verbose) console.log('Checking quotes...');
+    const quotes = quoteNote(await checkArticleQuotes(article, interview || documentId), documentId);
+
     if (options.dryRun) {
       // Return full preview with exact content that will be uploaded
       const preview = `
@@ -109,37 +132,64 @@ ${article.html}
 
       return {
         success: true,
-        message: `Preview generated. Call again without dryRun to publish this exact content as a draft.`,
+        message: keptDraftNote
+          ? `Preview generated.${keptDraftNote}${quotes}`
+          : `Preview generated. Run "interview ${documentId} --from-preview" to upload this exact content as a draft.${quotes}`,
         preview,
       };
     }
 
+    if (quotes && getQuoteCheckMode() === 'block') {
+      return {
+        success: false,
+        message: `Draft not created for "${article.title}".${quotes}`,
+      };
+    }
+
     // Check for duplicates only when actually publishing
     if (options.verbose) console.log('Checking for existing articles...');
-    const duplicateCheck = await checkArticleExists(article.title || '');
+    const duplicateCheck = await checkForDuplicates(article.title || '', htmlToText(article.html));
 
-    if (duplicateCheck.exactMatch) {
+    if (duplicateCheck.isDuplicate) {
       return {
         success: false,
-        message: `An article with exact title "${article.title}" already exists. Check Ghost for duplicates.`,
+        message: `This article duplicates ${formatMatch(duplicateCheck.matches[0])}. Check Ghost before publishing.`,
+        duplicate: true,
       };
     }
 
-    // Warn about similar articles but don't block
+    // Warn about related articles but don't block
     let similarWarning = '';
-    if (duplicateCheck.similarArticles.length > 0) {
-      const titles = duplicateCheck.similarArticles.slice(0, 3).map(a => a.title).join(', ');
+    if (duplicateCheck.matches.length > 0) {
+      const titles = duplicateCheck.matches.slice(0, 3).map(formatMatch).join(', ');
       similarWarning = `\n\nNote: Found similar articles: ${titles}`;
     }
 
+    // Swap image placeholders for the interview's photos
+    if (options.verbose) console.log('Attaching interview images...');
+    article = await attachInterviewImages(article, documentId, options);
+
     // Create draft in Ghost
     if (options.verbose) console.log('Creating draft in Ghost...');
     const ghostResult = await createDraftArticle(article);
 
+    recordSource({
+      sourceId: documentId,
+      sourceType: 'interview',
+      sourceTitle: sourceTitle || article.title,
+      status: 'generated',
+      postId: ghostResult.id,
+      postUrl: ghostResult.url,
+      runId: options.runId || newRunId('cli'),
+    });
+    await snapshotSource(documentId);
+    if (pushWorkingDraft) discardWorkingDraft(documentId);
+
     return {
       success: true,
-      message: `Created draft article: "${article.title}"${similarWarning}`,
+      message: `Created draft article: "${article.title}"${similarWarning}${quotes}`,
       articleUrl: ghostResult.url,
+      postId: ghostResult.id,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -150,6 +200,180 @@ ${article.html}
   }
 }
 
+/**
+ * Regenerate an interview article and overwrite an existing Ghost draft
+ * instead of creating a new post.
+ */
+export async function regenerateFromInterview(
+  postId: string,
+  documentId: string,
+  options: GeneratorOptions = {}
+): Promise<{ success: boolean; message: string; articleUrl?: string; postId?: string; preview?: string }> {
+  try {
+    if (options.verbose) console.log('Loading existing draft...');
+    const existing = await getArticle(postId);
+
+    if (existing.status !== 'draft' && existing.status !== 'scheduled') {
+      return {
+        success: false,
+        message: `"${existing.title}" is ${existing.status}. Only drafts and scheduled posts can be regenerated.`,
+      };
+    }
+
+    if (options.verbose) console.log('Fetching interview document...');
+    const interview = await getInterview(documentId);
+
+    if (!interview.content || interview.content.trim().length < 100) {
+      return {
+        success: false,
+        message: 'Interview document appears to be empty or too short.',
+      };
+    }
+
+    if (options.verbose) console.log('Regenerating article with AI...');
+    const { article, excerpt } = await buildInterviewArticle(interview);
+
+    // Keep the existing URL stable
+    article.slug = existing.slug;
+
+    const quotes = quoteNote(await checkArticleQuotes(article, interview));
+
+    if (options.dryRun) {
+      return {
+        success: true,
+        message: `[DRY RUN] Would replace "${existing.title}" with "${article.title}"${quotes}`,
+        preview: article.html,
+      };
+    }
+
+    if (quotes && getQuoteCheckMode() === 'block') {
+      return {
+        success: false,
+        message: `"${existing.title}" was not updated.${quotes}`,
+      };
+    }
+
+    if (options.verbose) console.log('Attaching interview images...');
+    const withImages = await attachInterviewImages(article, documentId, options);
+
+    if (options.verbose) console.log('Updating draft in Ghost...');
+    const ghostResult = await updateDraftArticle(postId, { ...withImages, excerpt });
+
+    recordSource({
+      sourceId: documentId,
+      sourceType: 'interview',
+      sourceTitle: interview.title,
+      status: 'generated',
+      postId: ghostResult.id,
+      postUrl: ghostResult.url,
+      runId: options.runId || newRunId('cli'),
+    });
+    saveSourceSnapshot(documentId, interview.content, interview.modifiedAt);
+
+    return {
+      success: true,
+      message: `Updated draft article: "${article.title}"${quotes}`,
+      articleUrl: ghostResult.url,
+      postId: ghostResult.id,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to regenerate article: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Apply an editor's change (e.g. "shorten the intro") to an interview's working
+ * draft, keeping the previous version for diffing and undo. Nothing goes to Ghost.
+ */
+export async function reviseInterviewDraft(
+  documentId: string,
+  instruction: string
+): Promise<{ success: boolean; message: string; draft?: WorkingDraft }> {
+  const draft = getWorkingDraft(documentId);
+  if (!draft) {
+    return { success: false, message: `No working draft for ${documentId}. Generate one first.` };
+  }
+
+  try {
+    const interview = await getInterview(documentId);
+    const current = getCurrentRevision(draft);
+
+    const result = await withArticleUsage(interview.title, () =>
+      reviseArticle(current.article, current.excerpt, instruction, formatInterviewTranscript(interview))
+    );
+
+    // Same metadata fallbacks as a fresh generation, keeping the slug
+    const article = result.article;
+    article.slug = current.article.slug;
+    article.metaTitle = article.metaTitle || generateMetaTitle(article.title);
+    article.metaDescription = article.metaDescription || generateMetaDescription(result.excerpt);
+
+    return {
+      success: true,
+      message: `Revised "${article.title}"`,
+      draft: addRevision(draft, article, result.excerpt, instruction),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to revise article: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Check the quotes in an interview's working draft against the interview.
+ */
+export async function checkInterviewDraftQuotes(documentId: string): Promise<QuoteCheckReport> {
+  const draft = getWorkingDraft(documentId);
+  if (!draft) throw new Error(`No working draft for ${documentId}. Generate one first.`);
+
+  return checkQuotes(getCurrentRevision(draft).article.html, [await getInterview(documentId)]);
+}
+
+/**
+ * Replace reworded quotes in an interview's working draft with the exact
+ * interview text, as a new revision (so it can be diffed and undone).
+ */
+export async function fixInterviewDraftQuotes(
+  documentId: string
+): Promise<{ success: boolean; message: string; draft?: WorkingDraft }> {
+  const draft = getWorkingDraft(documentId);
+  if (!draft) {
+    return { success: false, message: `No working draft for ${documentId}. Generate one first.` };
+  }
+
+  try {
+    const current = getCurrentRevision(draft);
+    const report = checkQuotes(current.article.html, [await getInterview(documentId)]);
+    const { html, replaced } = applyQuoteFixes(current.article.html, report);
+
+    if (replaced === 0) {
+      return {
+        success: false,
+        message: report.problems.length ? `Nothing to replace automatically.${quoteNote(report)}` : 'All quotes already match the interview.',
+      };
+    }
+
+    return {
+      success: true,
+      message: `Replaced ${replaced} quote(s) with the exact interview text`,
+      draft: addRevision(draft, { ...current.article, html }, current.excerpt, 'Use the exact interview text for reworded quotes'),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to fix quotes: ${errorMessage}`,
+    };
+  }
+}
+
 export async function listAvailableInterviews(
   folderId: string
 ): Promise<Interview[]> {
@@ -1,5 +1,8 @@
-import { checkArticleExists, createDraftArticle } from '../services/ghost.js';
+import { createDraftArticle } from '../services/ghost.js';
+import { checkForDuplicates, formatMatch } from '../services/duplicates.js';
+import { checkClaims, formatFactCheckReport, getFactCheckMode } from '../services/fact-check.js';
 import { generateSEOArticle } from '../services/ai.js';
+import { withArticleUsage } from '../services/usage.js';
 import { researchKeywords, isResearchAvailable } from '../services/research.js';
 import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags } from '../utils/metadata.js';
 import type { GeneratorOptions } from '../types/index.js';
@@ -8,18 +11,18 @@ export async function generateSEOContent(
   topic: string,
   keywords?: string[],
   options: GeneratorOptions = {}
-): Promise<{ success: boolean; message: string; articleUrl?: string }> {
+): Promise<{ success: boolean; message: string; articleUrl?: string; postId?: string }> {
   try {
     // Generate keywords from topic if not provided
     const targetKeywords = keywords || extractKeywordsFromTopic(topic);
 
     // Check for duplicates
     if (options.verbose) console.log('Checking for existing articles...');
-    const exists = await checkArticleExists(topic);
-    if (exists) {
+    const duplicates = await checkForDuplicates(topic);
+    if (duplicates.isDuplicate) {
       return {
         success: false,
-        message: `An article about "${topic}" may already exist. Check Ghost for duplicates.`,
+        message: `An article about "${topic}" already exists: ${formatMatch(duplicates.matches[0])}`,
       };
     }
 
@@ -27,12 +30,16 @@ export async function generateSEOContent(
     let researchContext = 'No additional research available.';
     if (isResearchAvailable()) {
       if (options.verbose) console.log('Researching topic and keywords...');
-      researchContext = await researchKeywords([topic, ...targetKeywords]);
+      try {
+        researchContext = await researchKeywords([topic, ...targetKeywords]);
+      } catch (error) {
+        console.warn(`Research failed, writing without it: ${error instanceof Error ? error.message : error}`);
+      }
     }
 
     // Generate the article
     if (options.verbose) console.log('Generating SEO-optimized article...');
-    const result = await generateSEOArticle(topic, targetKeywords, researchContext);
+    const result = await withArticleUsage(topic, () => generateSEOArticle(topic, targetKeywords, researchContext));
 
     // Enhance metadata
     const article = result.article;
@@ -45,10 +52,21 @@ export async function generateSEOContent(
     const keywordTags = targetKeywords.map(k => k.toLowerCase().replace(/\s+/g, '-'));
     article.tags = [...new Set([...(article.tags || []), ...autoTags, ...keywordTags])];
 
+    // Every figure and finding has to come from the research the article was written from
+    const factCheck = getFactCheckMode() === 'off' ? null : checkClaims(article.html, [{ label: 'research', text: researchContext }]);
+    const factCheckNote = factCheck?.unsupported.length ? `\n${formatFactCheckReport(factCheck)}` : '';
+
     if (options.dryRun) {
       return {
         success: true,
-        message: `[DRY RUN] Would create SEO article: "${article.title}"\nTarget keywords: ${targetKeywords.join(', ')}\nTags: ${article.tags?.join(', ')}`,
+        message: `[DRY RUN] Would create SEO article: "${article.title}"\nTarget keywords: ${targetKeywords.join(', ')}\nTags: ${article.tags?.join(', ')}${factCheckNote}`,
+      };
+    }
+
+    if (factCheckNote && getFactCheckMode() === 'block') {
+      return {
+        success: false,
+        message: `Draft not created for "${article.title}".${factCheckNote}`,
       };
     }
 
@@ -58,8 +76,9 @@ export async function generateSEOContent(
 
     return {
       success: true,
-      message: `Created SEO article: "${article.title}"`,
+      message: `Created SEO article: "${article.title}"${factCheckNote}`,
       articleUrl: ghostResult.url,
+      postId: ghostResult.id,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
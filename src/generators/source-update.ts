@@ -0,0 +1,86 @@
+import { getArticle } from '../services/ghost.js';
+import { acknowledgeSourceChange, type SourceChange } from '../services/source-changes.js';
+import { formatEditorFeedback, listApprovals } from '../services/approvals.js';
+import { runContentAgent } from '../strands-agent/agent.js';
+import { regenerateFromInterview } from './interview-profile.js';
+import type { GeneratorOptions } from '../types/index.js';
+
+/**
+ * Bring a post back in line with its edited source doc, updating the draft in place.
+ * Interviews are regenerated; idea docs are open-ended briefs, so the agent revises
+ * the existing draft against the updated instructions.
+ */
+export async function updateFromChangedSource(
+  change: SourceChange,
+  options: GeneratorOptions = {}
+): Promise<{ success: boolean; message: string; articleUrl?: string }> {
+  const { record } = change;
+
+  if (!record.postId) {
+    return { success: false, message: `No post recorded for "${record.sourceTitle}".` };
+  }
+
+  if (record.sourceType === 'interview') {
+    return regenerateFromInterview(record.postId, record.sourceId, options);
+  }
+
+  try {
+    const post = await getArticle(record.postId);
+    if (post.status === 'published') {
+      return {
+        success: false,
+        message: `"${post.title}" is already published. Update it by hand in Ghost.`,
+      };
+    }
+
+    if (options.dryRun) {
+      return { success: true, message: `[DRY RUN] Would revise "${post.title}" from the updated idea.` };
+    }
+
+    const request = `The idea doc "${record.sourceTitle}" (document ID: ${record.sourceId}) was edited after its article was written.
+
+## What changed in the idea doc
+${change.summary}
+
+## Required Workflow
+1. Read the updated idea with read_idea
+2. Read the current draft with read_article (post ID: ${record.postId})
+3. Revise the draft so it follows the updated instructions, keeping everything that still applies
+4. Save it with update_draft (post ID: ${record.postId}). Do NOT create a new draft.${formatEditorFeedback(record.sourceId)}`;
+
+    const startedAt = new Date().toISOString();
+    const result = await runContentAgent(
+      request,
+      process.env.GOOGLE_INTERVIEWS_FOLDER_ID!,
+      process.env.GOOGLE_IDEAS_FOLDER_ID,
+      { runId: options.runId }
+    );
+
+    // The agent's reply doesn't say whether update_draft went through (it may have been
+    // refused, or run out of budget), so look for the edit or the queued update itself
+    const updated = await getArticle(record.postId);
+    const queued = listApprovals('pending').find(approval =>
+      approval.tool === 'update_draft' && approval.sourceId === record.sourceId && approval.createdAt >= startedAt
+    );
+    if (updated.updatedAt === post.updatedAt && !queued) {
+      return {
+        success: false,
+        message: `"${post.title}" was not updated, so the change stays listed: ${result}`,
+      };
+    }
+
+    acknowledgeSourceChange(change);
+
+    return {
+      success: true,
+      message: queued ? `Update queued for editor approval (${queued.id}). ${result}` : result,
+      articleUrl: post.url,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to revise article: ${errorMessage}`,
+    };
+  }
+}
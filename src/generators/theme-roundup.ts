@@ -1,6 +1,9 @@
 import { getAllInterviewsWithContent } from '../services/google-docs.js';
-import { checkArticleExists, createDraftArticle } from '../services/ghost.js';
+import { createDraftArticle } from '../services/ghost.js';
+import { checkForDuplicates, formatMatch } from '../services/duplicates.js';
+import { checkQuotes, formatQuoteReport, getQuoteCheckMode } from '../services/quote-check.js';
 import { generateThemeArticle, analyzeInterviewsForThemes } from '../services/ai.js';
+import { withArticleUsage } from '../services/usage.js';
 import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags } from '../utils/metadata.js';
 import type { Interview, GeneratorOptions } from '../types/index.js';
 
@@ -30,7 +33,7 @@ export async function generateThemeRoundup(
   folderId: string,
   themeFocus?: string,
   options: GeneratorOptions = {}
-): Promise<{ success: boolean; message: string; articleUrl?: string }> {
+): Promise<{ success: boolean; message: string; articleUrl?: string; postId?: string }> {
   try {
     // Load all interviews
     if (options.verbose) console.log('Loading interviews...');
@@ -60,17 +63,17 @@ export async function generateThemeRoundup(
 
     // Check for duplicates
     if (options.verbose) console.log('Checking for existing articles...');
-    const exists = await checkArticleExists(theme);
-    if (exists) {
+    const duplicates = await checkForDuplicates(theme);
+    if (duplicates.isDuplicate) {
       return {
         success: false,
-        message: `An article about "${theme}" may already exist. Check Ghost for duplicates.`,
+        message: `An article about "${theme}" already exists: ${formatMatch(duplicates.matches[0])}`,
       };
     }
 
     // Generate the article
     if (options.verbose) console.log('Generating theme roundup article...');
-    const result = await generateThemeArticle(interviews);
+    const result = await withArticleUsage(theme, () => generateThemeArticle(interviews));
 
     // Enhance metadata
     const article = result.article;
@@ -85,10 +88,21 @@ export async function generateThemeRoundup(
     const autoTags = suggestTags(article.html, 'industry-insights');
     article.tags = [...new Set([...(article.tags || []), ...autoTags, 'roundup'])];
 
+    // Every quote has to be word for word from the vendor it's credited to
+    const quoteCheck = getQuoteCheckMode() === 'off' ? null : checkQuotes(article.html, interviews);
+    const quoteNote = quoteCheck?.problems.length ? `\n${formatQuoteReport(quoteCheck)}` : '';
+
     if (options.dryRun) {
       return {
         success: true,
-        message: `[DRY RUN] Would create theme roundup: "${article.title}"\nBased on ${interviews.length} interviews\nTags: ${article.tags?.join(', ')}`,
+        message: `[DRY RUN] Would create theme roundup: "${article.title}"\nBased on ${interviews.length} interviews\nTags: ${article.tags?.join(', ')}${quoteNote}`,
+      };
+    }
+
+    if (quoteNote && getQuoteCheckMode() === 'block') {
+      return {
+        success: false,
+        message: `Draft not created for "${article.title}".${quoteNote}`,
       };
     }
 
@@ -98,8 +112,9 @@ export async function generateThemeRoundup(
 
     return {
       success: true,
-      message: `Created theme roundup: "${article.title}" (based on ${interviews.length} interviews)`,
+      message: `Created theme roundup: "${article.title}" (based on ${interviews.length} interviews)${quoteNote}`,
       articleUrl: ghostResult.url,
+      postId: ghostResult.id,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
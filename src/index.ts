@@ -1,22 +1,55 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
+import inquirer from 'inquirer';
 import { config } from 'dotenv';
 
 // Load environment variables
 config();
 
-import { initGoogleClients } from './services/google-docs.js';
-import { initGhostClient, getExistingArticles, searchExistingArticles } from './services/ghost.js';
+import { initGoogleClients, listInterviews, listArticleIdeas } from './services/google-docs.js';
+import { initGhostClient } from './services/ghost.js';
+import { syncArticleIndex, searchArticles } from './services/article-index.js';
+import { checkForDuplicates } from './services/duplicates.js';
+import { searchInterviews, refreshInterviewIndex } from './services/interview-index.js';
 import { initAIClient } from './services/ai.js';
+import { getModelSettings, setModelOverride, MODEL_TASKS } from './services/models.js';
+import {
+  startUsageRun,
+  parseBudget,
+  loadUsageRecords,
+  summarizeUsage,
+  totalUsage,
+  formatUsage,
+  type UsageRecord,
+} from './services/usage.js';
 import { initResearchService } from './services/research.js';
-import { generateFromInterview, listAvailableInterviews } from './generators/interview-profile.js';
+import { getSandboxDir, initSandbox } from './services/sandbox/setup.js';
+import { initFixtures, isReplaying } from './services/fixtures.js';
+import { listApprovals, editApproval, resolveApproval, getPreviewUrl, type ApprovalRequest } from './services/approvals.js';
+import { executeTool } from './strands-agent/tools.js';
+import { extractExcerpt, truncateText } from './utils/metadata.js';
+import { listTranscripts, loadTranscript, type TranscriptEvent } from './services/transcripts.js';
+import { createChatSession, loadChatSession, listChatSessions, countTurns } from './services/chat-sessions.js';
+import { generateFromInterview, regenerateFromInterview, listAvailableInterviews, fixInterviewDraftQuotes } from './generators/interview-profile.js';
 import { generateThemeRoundup, discoverThemes } from './generators/theme-roundup.js';
 import { generateFromInsight, discoverInsights } from './generators/insight-article.js';
 import { generateSEOContent, suggestSEOTopics } from './generators/seo-content.js';
 import { startChat } from './chat.js';
+import { findChangedSources, acknowledgeSourceChange } from './services/source-changes.js';
+import { updateFromChangedSource } from './generators/source-update.js';
+import { getCalendar, scheduleOnCalendar, isContentType, CONTENT_TYPES } from './services/calendar.js';
+import {
+  findRecordByPostId,
+  getSourceRecord,
+  listSourceRecords,
+  newRunId,
+  recordSource,
+  removeSourceRecord,
+  setStateDirectory,
+} from './services/state-store.js';
 
 const program = new Command();
 
@@ -24,6 +57,25 @@ const program = new Command();
 async function initializeServices(): Promise<boolean> {
   const errors: string[] = [];
 
+  // Sandbox: local stand-ins for Ghost, Drive and search, so only the model key is needed
+  const sandboxDir = getSandboxDir(program.opts().sandbox);
+  if (sandboxDir) {
+    if (!process.env.ANTHROPIC_API_KEY && !isReplaying()) {
+      console.error(chalk.red('\nMissing ANTHROPIC_API_KEY\n'));
+      return false;
+    }
+
+    try {
+      initSandbox(sandboxDir);
+    } catch (error) {
+      console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Could not set up the sandbox'}\n`));
+      return false;
+    }
+    initAIClient(process.env.ANTHROPIC_API_KEY);
+    console.log(chalk.magenta(`Sandbox mode: using ${sandboxDir}`));
+    return true;
+  }
+
   // Ghost
   if (!process.env.GHOST_URL || !process.env.GHOST_ADMIN_API_KEY) {
     errors.push('Missing GHOST_URL or GHOST_ADMIN_API_KEY');
@@ -53,8 +105,8 @@ async function initializeServices(): Promise<boolean> {
     }
   }
 
-  // AI
-  if (!process.env.ANTHROPIC_API_KEY) {
+  // AI (a replay serves recorded responses, so it needs no key)
+  if (!process.env.ANTHROPIC_API_KEY && !isReplaying()) {
     errors.push('Missing ANTHROPIC_API_KEY');
   } else {
     initAIClient(process.env.ANTHROPIC_API_KEY);
@@ -76,21 +128,109 @@ async function initializeServices(): Promise<boolean> {
 program
   .name('ghost-agent')
   .description("AI-powered content generation for Pretty's Perspectives")
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-m, --model <model>', 'Use this Claude model for every task (configured models become fallbacks)')
+  .option('--sandbox', 'Use local stand-ins for Ghost, Google Drive and web search (./sandbox, or SANDBOX_DIR)')
+  .option('--budget <usd>', 'Stop making Claude requests once this command has spent this much (USD)', (value: string) => {
+    const budget = parseBudget(value);
+    if (budget === undefined) throw new InvalidArgumentError('Expected a positive number of dollars, e.g. 5 or 2.50.');
+    return budget;
+  })
+  .option('--record <name>', 'Save every Claude request and response to fixtures/<name>')
+  .option('--replay <name>', 'Serve Claude responses from fixtures/<name> instead of calling the API')
+  .hook('preAction', (_program, actionCommand) => {
+    const { model, budget, sandbox, record, replay } = program.opts();
+    setModelOverride(model);
+
+    try {
+      initFixtures({ record, replay });
+    } catch (error) {
+      console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Could not set up fixtures'}\n`));
+      process.exit(1);
+    }
+
+    // Sandbox runs keep their own content state, including commands that don't start the services
+    const sandboxDir = getSandboxDir(sandbox);
+    if (sandboxDir) setStateDirectory(sandboxDir);
+
+    // "sources list" rather than just "list"
+    const names: string[] = [];
+    for (let cmd: Command | null = actionCommand; cmd?.parent; cmd = cmd.parent) {
+      names.unshift(cmd.name());
+    }
+    const command = names.join(' ');
+    startUsageRun(newRunId(command.replace(/\s+/g, '-')), command, budget);
+  });
 
 // Interview command
 program
   .command('interview <documentId>')
   .description('Generate article from a Google Docs interview')
   .option('-d, --dry-run', 'Preview without creating draft')
+  .option('--from-preview', 'Upload the working draft (the last dry run, or a chat draft) as it stands')
+  .option('--fix-quotes', 'Use the exact interview text for reworded quotes in the working draft')
   .option('-v, --verbose', 'Show detailed progress')
   .action(async (documentId, options) => {
     if (!await initializeServices()) return;
 
+    if (options.fixQuotes) {
+      const spinner = ora('Fixing quotes...').start();
+      try {
+        const result = await fixInterviewDraftQuotes(documentId);
+        spinner.stop();
+        console.log(result.success ? chalk.green(`\n✓ ${result.message}`) : chalk.yellow(`\n⚠ ${result.message}`));
+      } catch (error) {
+        spinner.fail('Failed');
+        console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return;
+    }
+
     const spinner = ora('Generating interview article...').start();
 
     try {
       const result = await generateFromInterview(documentId, {
+        dryRun: options.dryRun,
+        useWorkingDraft: options.fromPreview,
+        verbose: options.verbose,
+      });
+
+      spinner.stop();
+
+      if (result.success) {
+        console.log(chalk.green(`\n✓ ${result.message}`));
+        if (result.articleUrl) {
+          console.log(chalk.cyan(`  Draft URL: ${result.articleUrl}`));
+        }
+      } else {
+        console.log(chalk.yellow(`\n⚠ ${result.message}`));
+      }
+    } catch (error) {
+      spinner.fail('Failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
+// Regenerate command
+program
+  .command('regenerate <postId>')
+  .description('Regenerate an existing Ghost draft in place from its interview')
+  .option('-i, --interview <documentId>', 'Google Docs interview to regenerate from (defaults to the recorded source)')
+  .option('-d, --dry-run', 'Preview without updating the draft')
+  .option('-v, --verbose', 'Show detailed progress')
+  .action(async (postId, options) => {
+    const documentId = options.interview || findRecordByPostId(postId)?.sourceId;
+    if (!documentId) {
+      console.error(chalk.red('No source interview recorded for this post. Pass --interview <documentId>.'));
+      return;
+    }
+
+    if (!await initializeServices()) return;
+
+    const spinner = ora('Regenerating draft...').start();
+
+    try {
+      const result = await regenerateFromInterview(postId, documentId, {
         dryRun: options.dryRun,
         verbose: options.verbose,
       });
@@ -284,30 +424,110 @@ program
     }
   });
 
+// Search command
+program
+  .command('search <query>')
+  .description('Search all interviews, best matches first ("quoted phrases" must match exactly)')
+  .option('-n, --limit <count>', 'Number of vendors to show', '10')
+  .option('-s, --snippets <count>', 'Snippets to show per vendor', '3')
+  .option('--rebuild', 'Re-read every interview instead of only new and edited ones')
+  .action(async (query: string, options) => {
+    if (!await initializeServices()) return;
+
+    const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID;
+    if (!folderId) {
+      console.error(chalk.red('Missing GOOGLE_INTERVIEWS_FOLDER_ID'));
+      return;
+    }
+
+    const spinner = ora('Updating interview index...').start();
+
+    try {
+      if (options.rebuild) await refreshInterviewIndex(folderId, { rebuild: true });
+      const results = await searchInterviews(folderId, query, {
+        limit: parseInt(options.limit, 10),
+        snippetsPerVendor: parseInt(options.snippets, 10),
+      });
+      spinner.stop();
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`\nNo interviews mention "${query}"\n`));
+        return;
+      }
+
+      console.log(chalk.cyan(`\n--- ${results.length} Interview(s) matching "${query}" ---\n`));
+
+      for (const result of results) {
+        console.log(chalk.white(`  ${result.vendorName}`) + chalk.gray(` (score ${result.score.toFixed(1)}, ID: ${result.documentId})`));
+        for (const snippet of result.snippets) {
+          if (snippet.question) console.log(chalk.gray(`    Q: ${snippet.question}`));
+          console.log(`    ${truncateText(snippet.text.replace(/\s+/g, ' '), 300)}`);
+        }
+        console.log('');
+      }
+    } catch (error) {
+      spinner.fail('Failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
 // Existing command
 program
   .command('existing')
   .description('List existing articles on Ghost')
   .option('-s, --search <query>', 'Search for specific articles')
+  .option('-d, --duplicates <title>', 'Score existing articles against a proposed title')
+  .option('-t, --text <text>', 'Draft text or summary to compare along with --duplicates')
+  .option('--rebuild', 'Download every post again instead of only those edited since the last sync')
   .action(async (options) => {
     if (!await initializeServices()) return;
 
     const spinner = ora('Fetching articles...').start();
 
     try {
+      if (options.rebuild) {
+        const { articles } = await syncArticleIndex({ rebuild: true });
+        spinner.succeed(`Rebuilt the article index (${articles.length} articles)`);
+        spinner.start('Fetching articles...');
+      }
+
+      if (options.duplicates) {
+        const check = await checkForDuplicates(options.duplicates, options.text);
+        spinner.stop();
+
+        if (check.matches.length === 0) {
+          console.log(chalk.green(`\nNo existing articles are similar to "${options.duplicates}"\n`));
+          return;
+        }
+
+        console.log(check.isDuplicate
+          ? chalk.red(`\n"${options.duplicates}" duplicates an existing article\n`)
+          : chalk.yellow(`\n"${options.duplicates}" is similar to existing articles, but not a duplicate\n`));
+        for (const match of check.matches) {
+          console.log(chalk.white(`  ${Math.round(match.score * 100)}%  ${match.article.title}`) + chalk.gray(` (${match.article.status})`));
+          console.log(chalk.gray(`       ${match.explanation}`));
+        }
+        console.log('');
+        return;
+      }
+
       let articles;
       if (options.search) {
-        articles = await searchExistingArticles(options.search);
+        articles = await searchArticles(options.search);
         spinner.stop();
         console.log(chalk.cyan(`\n--- Articles matching "${options.search}" ---\n`));
       } else {
-        articles = await getExistingArticles();
+        const sync = await syncArticleIndex();
+        articles = sync.articles;
         spinner.stop();
+        if (sync.updated || sync.removed) {
+          console.log(chalk.gray(`\nSynced ${sync.updated} new or edited and ${sync.removed} deleted posts`));
+        }
         console.log(chalk.cyan(`\n--- ${articles.length} Total Articles ---\n`));
       }
 
       for (const article of articles.slice(0, 30)) {
-        console.log(chalk.white(`  ${article.title}`));
+        console.log(chalk.white(`  ${article.title}`) + chalk.gray(` (${article.status})`));
         console.log(chalk.gray(`    /${article.slug}`));
         if (article.publishedAt) {
           console.log(chalk.gray(`    Published: ${new Date(article.publishedAt).toLocaleDateString()}`));
@@ -324,11 +544,376 @@ program
     }
   });
 
+// Calendar command
+program
+  .command('calendar')
+  .description('Show upcoming scheduled posts')
+  .option('-w, --weeks <weeks>', 'Number of weeks to show', '4')
+  .action(async (options) => {
+    if (!await initializeServices()) return;
+
+    const spinner = ora('Loading calendar...').start();
+
+    try {
+      const entries = await getCalendar(parseInt(options.weeks, 10));
+      spinner.stop();
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow('\nNothing scheduled. Use `ghost-agent schedule <postId>` to add drafts.\n'));
+        return;
+      }
+
+      console.log(chalk.cyan(`\n--- ${entries.length} Scheduled Posts ---\n`));
+
+      for (const entry of entries) {
+        const day = entry.publishAt.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+        const time = entry.publishAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+        console.log(chalk.white(`  ${day} ${time}  ${entry.title}`));
+        console.log(chalk.gray(`    ${entry.contentType || 'unassigned'} · ID: ${entry.id}`));
+        console.log('');
+      }
+    } catch (error) {
+      spinner.fail('Failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
+// Schedule command
+program
+  .command('schedule <postId>')
+  .description('Schedule a draft for publishing on the editorial calendar')
+  .requiredOption('-t, --type <type>', `Content type (${CONTENT_TYPES.join(', ')})`)
+  .option('--date <date>', 'Publish date (YYYY-MM-DD), defaults to the next open slot')
+  .action(async (postId, options) => {
+    if (!isContentType(options.type)) {
+      console.error(chalk.red(`Unknown content type "${options.type}". Use one of: ${CONTENT_TYPES.join(', ')}`));
+      return;
+    }
+
+    let date: Date | undefined;
+    if (options.date) {
+      const [year, month, day] = options.date.split('-').map(Number);
+      date = new Date(year, month - 1, day);
+      if (isNaN(date.getTime())) {
+        console.error(chalk.red(`Invalid date "${options.date}". Use YYYY-MM-DD.`));
+        return;
+      }
+    }
+
+    if (!await initializeServices()) return;
+
+    const spinner = ora('Scheduling post...').start();
+
+    try {
+      const result = await scheduleOnCalendar(postId, options.type, date);
+      spinner.stop();
+
+      console.log(chalk.green(`\n✓ Scheduled for ${result.publishAt.toLocaleString()}`));
+      console.log(chalk.cyan(`  Post URL: ${result.url}`));
+    } catch (error) {
+      spinner.fail('Failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
+// Sources commands
+const sources = program
+  .command('sources')
+  .description('Manage the record of which interviews and ideas have posts');
+
+sources
+  .command('list')
+  .description('List recorded sources and their Ghost posts')
+  .option('-t, --type <type>', 'Only show interview or idea sources')
+  .action((options) => {
+    const records = listSourceRecords(options.type);
+
+    if (records.length === 0) {
+      console.log(chalk.yellow('\nNo sources recorded yet.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n--- ${records.length} Recorded Sources ---\n`));
+
+    for (const record of records) {
+      const color = record.status === 'failed' ? chalk.red
+        : record.status === 'skipped' ? chalk.gray
+        : record.status === 'pending' ? chalk.yellow
+        : chalk.green;
+      console.log(chalk.white(`  ${record.sourceTitle}`) + ' ' + color(`[${record.status}]`));
+      console.log(chalk.gray(`    ${record.sourceType} ${record.sourceId}`));
+      if (record.postId) {
+        console.log(chalk.gray(`    Post: ${record.postId}${record.postUrl ? ` (${record.postUrl})` : ''}`));
+      }
+      console.log(chalk.gray(`    ${new Date(record.generatedAt).toLocaleString()} · run ${record.runId}`));
+      if (record.note) {
+        console.log(chalk.gray(`    ${record.note}`));
+      }
+      console.log('');
+    }
+  });
+
+sources
+  .command('link <sourceId> <postId>')
+  .description('Record that a Ghost post was written from an interview or idea')
+  .option('-t, --type <type>', 'Source type (interview or idea)', 'interview')
+  .action((sourceId, postId, options) => {
+    if (options.type !== 'interview' && options.type !== 'idea') {
+      console.error(chalk.red(`Unknown source type "${options.type}". Use interview or idea.`));
+      return;
+    }
+
+    const existing = getSourceRecord(sourceId);
+    recordSource({
+      sourceId,
+      sourceType: options.type,
+      sourceTitle: existing?.sourceTitle || sourceId,
+      status: 'generated',
+      postId,
+      runId: newRunId('manual'),
+    });
+    console.log(chalk.green(`\n✓ Linked ${sourceId} to post ${postId}\n`));
+  });
+
+sources
+  .command('reset <sourceId>')
+  .description('Forget a source so the schedulers process it again')
+  .action((sourceId) => {
+    if (removeSourceRecord(sourceId)) {
+      console.log(chalk.green(`\n✓ ${sourceId} will be picked up by the next scheduler run\n`));
+    } else {
+      console.log(chalk.yellow(`\n⚠ No record for ${sourceId}\n`));
+    }
+  });
+
+// Changes command
+program
+  .command('changes')
+  .description('Review interviews and ideas edited since their articles were generated')
+  .action(async () => {
+    if (!await initializeServices()) return;
+
+    const spinner = ora('Checking source docs for edits...').start();
+
+    try {
+      const ideasFolderId = process.env.GOOGLE_IDEAS_FOLDER_ID;
+      const sources = [
+        ...await listInterviews(process.env.GOOGLE_INTERVIEWS_FOLDER_ID!),
+        ...(ideasFolderId ? await listArticleIdeas(ideasFolderId) : []),
+      ];
+      const changes = await findChangedSources(sources);
+      spinner.stop();
+
+      if (changes.length === 0) {
+        console.log(chalk.green('\n✓ No sources edited since their articles were generated.\n'));
+        return;
+      }
+
+      console.log(chalk.cyan(`\n--- ${changes.length} Edited Sources ---`));
+
+      for (const change of changes) {
+        console.log(chalk.white(`\n  ${change.record.sourceTitle}`) + chalk.gray(` (${change.record.sourceType})`));
+        console.log(chalk.gray(`    Edited ${change.modifiedAt.toLocaleString()} · post ${change.record.postId}`));
+        console.log(change.summary.split('\n').map(line =>
+          line.startsWith('+') ? chalk.green(`    ${line}`) : line.startsWith('-') ? chalk.red(`    ${line}`) : chalk.gray(`    ${line}`)
+        ).join('\n'));
+
+        const { action } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'action',
+            message: 'What should happen to the draft?',
+            choices: [
+              { name: 'Update the draft from the edited source', value: 'update' },
+              { name: 'Mark as reviewed (keep the draft as is)', value: 'acknowledge' },
+              { name: 'Skip for now', value: 'skip' },
+            ],
+          },
+        ]);
+
+        if (action === 'acknowledge') {
+          acknowledgeSourceChange(change);
+          console.log(chalk.gray('  Marked as reviewed.'));
+        } else if (action === 'update') {
+          const updateSpinner = ora('Updating draft...').start();
+          const result = await updateFromChangedSource(change);
+          updateSpinner.stop();
+
+          if (result.success) {
+            console.log(chalk.green(`  ✓ ${result.message}`));
+          } else {
+            console.log(chalk.yellow(`  ⚠ ${result.message}`));
+          }
+        }
+      }
+      console.log('');
+    } catch (error) {
+      spinner.fail('Failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  });
+
+// Review command
+function printApproval(approval: ApprovalRequest): void {
+  const { title, tags, excerpt, html, postId } = approval.input as {
+    title?: string; tags?: string[]; excerpt?: string; html?: string; postId?: string;
+  };
+  const heading = approval.tool === 'update_draft' ? `Update to post ${postId}` : 'New draft';
+
+  console.log(chalk.white(`\n  ${title || '(title unchanged)'}`) + chalk.gray(` [${approval.id}]`));
+  console.log(chalk.gray(`    ${heading} · run ${approval.runId} · ${new Date(approval.createdAt).toLocaleString()}`));
+  if (approval.sourceId) {
+    const record = getSourceRecord(approval.sourceId);
+    console.log(chalk.gray(`    Source: ${record?.sourceTitle || approval.sourceId}`));
+  }
+  if (tags) console.log(chalk.gray(`    Tags: ${tags.join(', ')}`));
+  if (excerpt) console.log(chalk.gray(`    Excerpt: ${excerpt}`));
+  if (html) console.log(chalk.gray(`    ${extractExcerpt(html, 400)}`));
+  console.log(chalk.blue(`    Preview: ${getPreviewUrl(approval)}`));
+}
+
+program
+  .command('review')
+  .description('Approve, edit or reject drafts the agent queued for approval')
+  .option('-l, --list', 'Only list what is waiting for review')
+  .action(async (options) => {
+    const pending = listApprovals('pending');
+
+    if (pending.length === 0) {
+      console.log(chalk.green('\n✓ Nothing waiting for review.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n--- ${pending.length} Waiting for Review ---`));
+
+    if (options.list) {
+      pending.forEach(printApproval);
+      console.log('');
+      return;
+    }
+
+    if (!await initializeServices()) return;
+
+    const context = {
+      folderId: process.env.GOOGLE_INTERVIEWS_FOLDER_ID!,
+      ideasFolderId: process.env.GOOGLE_IDEAS_FOLDER_ID,
+    };
+
+    for (let approval of pending) {
+      while (true) {
+        printApproval(approval);
+
+        const { action } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'action',
+            message: 'What should happen to it?',
+            choices: [
+              { name: approval.tool === 'update_draft' ? 'Approve and update the draft in Ghost' : 'Approve and create the draft in Ghost', value: 'approve' },
+              { name: 'Edit before approving', value: 'edit' },
+              { name: 'Reject with feedback for the next attempt', value: 'reject' },
+              { name: 'Skip for now', value: 'skip' },
+            ],
+          },
+        ]);
+
+        if (action === 'edit') {
+          const current = approval.input as { title?: string; tags?: string[]; excerpt?: string; html?: string };
+          const changes = await inquirer.prompt([
+            { type: 'input', name: 'title', message: 'Title:', default: current.title },
+            { type: 'input', name: 'excerpt', message: 'Excerpt:', default: current.excerpt },
+            { type: 'input', name: 'tags', message: 'Tags (comma-separated):', default: current.tags?.join(', ') },
+            { type: 'editor', name: 'html', message: 'HTML (opens your editor):', default: current.html },
+          ]);
+
+          approval = editApproval(approval.id, {
+            title: changes.title || undefined,
+            excerpt: changes.excerpt || undefined,
+            tags: changes.tags ? changes.tags.split(',').map((t: string) => t.trim()).filter(Boolean) : undefined,
+            html: changes.html.trim() || undefined,
+          });
+          continue;
+        }
+
+        if (action === 'reject') {
+          const { feedback } = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'feedback',
+              message: 'What should the next attempt do differently?',
+              validate: (value: string) => value.trim().length > 0 || 'Feedback is passed to the agent, so it is required',
+            },
+          ]);
+
+          resolveApproval(approval.id, 'rejected', { feedback: feedback.trim() });
+
+          // A rejected new draft is retried (with the feedback) by the next daily run
+          const record = approval.sourceId ? getSourceRecord(approval.sourceId) : undefined;
+          if (approval.tool === 'create_draft' && record?.status === 'pending') {
+            recordSource({ ...record, status: 'failed', note: `Rejected in review: ${feedback.trim()}` });
+          }
+          console.log(chalk.gray('  Rejected.'));
+        }
+
+        if (action === 'approve') {
+          const spinner = ora(approval.tool === 'update_draft' ? 'Updating draft...' : 'Creating draft...').start();
+          try {
+            const result = JSON.parse(await executeTool(approval.tool, approval.input, { ...context, runId: approval.runId, reviewed: true }));
+            if (result.success) {
+              resolveApproval(approval.id, 'approved', { postId: result.id, postUrl: result.url });
+              spinner.succeed(result.message);
+              console.log(chalk.blue(`  ${result.url}`));
+            } else {
+              spinner.warn(result.message);
+            }
+          } catch (error) {
+            spinner.fail('Failed');
+            console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+          }
+        }
+
+        break;
+      }
+    }
+    console.log('');
+  });
+
 // Chat command
 program
   .command('chat')
   .description('Start interactive chat mode')
-  .action(async () => {
+  .option('-r, --resume [sessionId]', 'Carry on a saved conversation (the most recent one if no ID is given)')
+  .option('-l, --list', 'List saved conversations')
+  .action(async (options) => {
+    if (options.list) {
+      const sessions = listChatSessions();
+
+      if (sessions.length === 0) {
+        console.log(chalk.yellow('\nNo saved conversations yet.\n'));
+        return;
+      }
+
+      console.log(chalk.cyan(`\n--- ${sessions.length} Saved Conversations ---\n`));
+      for (const session of sessions) {
+        console.log(chalk.white(`  ${session.id}`));
+        console.log(chalk.gray(`    ${session.title}`));
+        const draft = session.activeDraft ? ` · editing draft ${session.activeDraft}` : '';
+        console.log(chalk.gray(`    ${countTurns(session)} messages · ${new Date(session.updatedAt).toLocaleString()}${draft}`));
+        console.log('');
+      }
+      return;
+    }
+
+    let session = createChatSession();
+    if (options.resume) {
+      const resumed = options.resume === true ? listChatSessions()[0] : loadChatSession(options.resume);
+      if (!resumed) {
+        console.error(chalk.red(options.resume === true ? 'No saved conversations yet.' : `No saved conversation ${options.resume}. See chat --list.`));
+        return;
+      }
+      session = resumed;
+    }
+
     if (!await initializeServices()) return;
 
     const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID;
@@ -337,7 +922,9 @@ program
       return;
     }
 
-    await startChat({ interviewsFolderId: folderId });
+    // Usage is recorded against the conversation, across resumes
+    startUsageRun(session.id, 'chat', program.opts().budget);
+    await startChat({ interviewsFolderId: folderId, ideasFolderId: process.env.GOOGLE_IDEAS_FOLDER_ID }, session);
   });
 
 // Insights discovery command
@@ -378,4 +965,172 @@ program
     }
   });
 
+// Usage report command
+const USAGE_GROUPS: Record<string, (record: UsageRecord) => string | undefined> = {
+  command: r => r.command,
+  run: r => r.runId,
+  article: r => r.article,
+  task: r => r.task,
+  model: r => r.model,
+};
+
+program
+  .command('usage')
+  .description('Show Claude token usage and cost per command, run or article')
+  .option('-d, --days <days>', 'Only include the last N days', '30')
+  .option('-b, --by <field>', `Group by ${Object.keys(USAGE_GROUPS).join(', ')}`, 'command')
+  .option('-r, --run <runId>', 'Break down a single command or scheduler run')
+  .action((options) => {
+    const groupBy = USAGE_GROUPS[options.by];
+    if (!groupBy) {
+      console.error(chalk.red(`Unknown grouping "${options.by}". Use one of: ${Object.keys(USAGE_GROUPS).join(', ')}`));
+      return;
+    }
+
+    const records = options.run
+      ? loadUsageRecords().filter(r => r.runId === options.run)
+      : loadUsageRecords(new Date(Date.now() - parseInt(options.days) * 24 * 60 * 60 * 1000));
+
+    if (records.length === 0) {
+      console.log(chalk.yellow(options.run ? `\nNo usage recorded for run ${options.run}.` : '\nNo usage recorded in this period.'));
+      return;
+    }
+
+    const heading = options.run ? `Run ${options.run}` : `Last ${options.days} days`;
+    console.log(chalk.cyan(`\n--- Usage: ${heading} ---\n`));
+    console.log(chalk.white(`  Total: ${formatUsage(totalUsage(records))}\n`));
+
+    // A single run is most useful split by article and task
+    const groupings = options.run ? ['article', 'task'] : [options.by];
+    for (const grouping of groupings) {
+      console.log(chalk.gray(`  By ${grouping}:`));
+      for (const summary of summarizeUsage(records, USAGE_GROUPS[grouping])) {
+        console.log(`    ${chalk.white(summary.key)}`);
+        console.log(chalk.gray(`      ${formatUsage(summary)}`));
+      }
+      console.log();
+    }
+  });
+
+// Model settings command
+program
+  .command('models')
+  .description('Show the model, token limit and fallbacks used for each task')
+  .action(() => {
+    console.log(chalk.cyan('\n--- Model Settings ---\n'));
+
+    for (const task of MODEL_TASKS) {
+      const settings = getModelSettings(task);
+      const temperature = settings.temperature !== undefined ? `, temperature ${settings.temperature}` : '';
+      console.log(chalk.white(`  ${task.padEnd(10)} ${settings.model}`));
+      console.log(chalk.gray(`  ${''.padEnd(10)} max ${settings.maxTokens} tokens${temperature}`));
+      if (settings.fallbacks.length > 0) {
+        console.log(chalk.gray(`  ${''.padEnd(10)} fallbacks: ${settings.fallbacks.join(' → ')}`));
+      }
+    }
+
+    console.log(chalk.gray('\nEdit config/models.json to change these, or pass --model to override.\n'));
+  });
+
+// Agent run transcripts
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function indent(text: string, prefix: string = '      '): string {
+  return text.split('\n').map(line => prefix + line).join('\n');
+}
+
+function printTranscript(events: TranscriptEvent[], full: boolean): void {
+  const clip = (text: string) => full ? text : truncateText(text, 300);
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'start':
+        console.log(chalk.cyan(`\n--- Agent run ${event.transcriptId} ---\n`));
+        console.log(chalk.gray(`  Run ${event.runId} · ${new Date(event.timestamp).toLocaleString()}${event.requireApproval ? ' · approval required' : ''}`));
+        console.log(chalk.white('  Request:'));
+        console.log(chalk.gray(indent(clip(event.request), '    ')));
+        break;
+      case 'assistant': {
+        const calls = event.toolCalls.length > 0 ? ` → ${event.toolCalls.join(', ')}` : '';
+        console.log(chalk.white(`\n  [${event.iteration}] ${event.model}`) +
+          chalk.gray(` ${formatDuration(event.durationMs)} · ${event.inputTokens} in / ${event.outputTokens} out · ${event.stopReason}${calls}`));
+        if (event.text) console.log(chalk.gray(indent(clip(event.text), '    ')));
+        break;
+      }
+      case 'tool': {
+        const color = event.isError ? chalk.red : chalk.yellow;
+        console.log(color(`    ${event.name}`) + chalk.gray(` ${formatDuration(event.durationMs)}`));
+        console.log(chalk.gray(indent(`input: ${clip(JSON.stringify(event.input))}`)));
+        console.log(chalk.gray(indent(`output: ${clip(event.output)}`)));
+        break;
+      }
+      case 'end': {
+        const color = event.outcome === 'completed' ? chalk.green : chalk.red;
+        console.log(color(`\n  ${event.outcome}`) + chalk.gray(` after ${event.iterations} iterations in ${formatDuration(event.durationMs)}`));
+        if (event.error) console.log(chalk.red(`  ${event.error}`));
+        if (event.finalText) console.log(chalk.gray(indent(clip(event.finalText), '    ')));
+        break;
+      }
+    }
+  }
+
+  if (!events.some(e => e.type === 'end')) {
+    console.log(chalk.yellow('\n  No outcome recorded - the run is still going or was interrupted'));
+  }
+  console.log('');
+}
+
+const runs = program
+  .command('runs')
+  .description('Inspect transcripts of content agent runs');
+
+runs
+  .command('list')
+  .description('List agent runs, newest first')
+  .option('-n, --limit <count>', 'Number of runs to show', '20')
+  .option('-r, --run <runId>', 'Only agent runs started by this command or scheduler run')
+  .action((options) => {
+    const transcripts = listTranscripts()
+      .filter(t => !options.run || t.runId === options.run)
+      .slice(0, parseInt(options.limit));
+
+    if (transcripts.length === 0) {
+      console.log(chalk.yellow('\nNo agent runs recorded yet.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n--- ${transcripts.length} Agent Runs ---\n`));
+
+    for (const t of transcripts) {
+      const color = t.outcome === 'completed' ? chalk.green : t.outcome ? chalk.red : chalk.yellow;
+      console.log(chalk.white(`  ${t.transcriptId}`) + ' ' + color(`[${t.outcome || 'unfinished'}]`));
+      const stats = t.iterations !== undefined
+        ? `${t.iterations} iterations, ${t.toolCalls} tool calls, ${formatDuration(t.durationMs!)}`
+        : `${t.toolCalls} tool calls`;
+      console.log(chalk.gray(`    ${new Date(t.startedAt).toLocaleString()} · run ${t.runId} · ${stats}`));
+      console.log(chalk.gray(`    ${truncateText(t.request.split('\n')[0], 100)}`));
+      console.log('');
+    }
+  });
+
+runs
+  .command('show <id>')
+  .description('Show an agent run turn by turn (or every agent run of a scheduler run)')
+  .option('-f, --full', 'Show full requests, text and tool inputs/outputs')
+  .action((id, options) => {
+    const single = loadTranscript(id);
+    const transcripts = single
+      ? [single]
+      : listTranscripts().filter(t => t.runId === id).reverse().map(t => loadTranscript(t.transcriptId)!);
+
+    if (transcripts.length === 0) {
+      console.log(chalk.yellow(`\nNo agent run or scheduler run ${id}\n`));
+      return;
+    }
+
+    transcripts.forEach(events => printTranscript(events, options.full));
+  });
+
 program.parse();
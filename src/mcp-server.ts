@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+
+// Quiet, since dotenv announces itself on stdout
+config({ quiet: true });
+
+// stdout carries the MCP protocol, so anything the services log has to go to stderr
+console.log = console.error;
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { initGoogleClients } from './services/google-docs.js';
+import { initGhostClient } from './services/ghost.js';
+import { initResearchService } from './services/research.js';
+import { newRunId } from './services/state-store.js';
+import { isApprovalRequired } from './services/approvals.js';
+import { getSandboxDir, initSandbox } from './services/sandbox/setup.js';
+import { tools, executeTool, type ToolContext } from './strands-agent/tools.js';
+
+async function initServices(): Promise<boolean> {
+  try {
+    const sandboxDir = getSandboxDir(process.argv.includes('--sandbox'));
+    if (sandboxDir) {
+      initSandbox(sandboxDir);
+      console.error(`Sandbox mode: using ${sandboxDir}`);
+      return true;
+    }
+
+    initGhostClient({
+      url: process.env.GHOST_URL!,
+      key: process.env.GHOST_ADMIN_API_KEY!,
+    });
+
+    await initGoogleClients({
+      clientId: process.env.GOOGLE_CLIENT_ID!,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+      tokenPath: process.env.GOOGLE_TOKEN_PATH || './config/google-token.json',
+      interviewsFolderId: process.env.GOOGLE_INTERVIEWS_FOLDER_ID!,
+      ideasFolderId: process.env.GOOGLE_IDEAS_FOLDER_ID,
+    });
+
+    initResearchService(process.env.TAVILY_API_KEY);
+
+    return true;
+  } catch (error) {
+    console.error('Failed to initialize services:', error);
+    return false;
+  }
+}
+
+async function startMcpServer(): Promise<void> {
+  if (!await initServices()) {
+    process.exit(1);
+  }
+
+  // One run ID per server session, recorded against any drafts created through it.
+  // Ghost changes wait for an editor under REQUIRE_APPROVAL, as they do for the agent
+  const context: ToolContext = {
+    folderId: process.env.GOOGLE_INTERVIEWS_FOLDER_ID!,
+    ideasFolderId: process.env.GOOGLE_IDEAS_FOLDER_ID,
+    runId: newRunId('mcp'),
+    requireApproval: isApprovalRequired(),
+  };
+
+  // The low-level Server takes JSON Schema tool definitions as-is, so the MCP tools
+  // come straight from the same registry the content agent uses
+  const server = new Server(
+    { name: 'ghost-agent', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.input_schema,
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+
+    if (!tools.some(tool => tool.name === name)) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await executeTool(name, args, context);
+      return { content: [{ type: 'text', text: result }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+        isError: true,
+      };
+    }
+  });
+
+  await server.connect(new StdioServerTransport());
+  console.error(`Ghost agent MCP server running on stdio (run ${context.runId})`);
+}
+
+startMcpServer();
@@ -2,34 +2,231 @@ import Anthropic from '@anthropic-ai/sdk';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { sanitizeBlockedLinks } from '../utils/blocklist.js';
-import type { ArticleGenerationResult, Interview } from '../types/index.js';
+import { createMessage, type ModelTask } from './models.js';
+import { isReplaying } from './fixtures.js';
+import { applyCompetitorPolicy, describeCompetitors, formatCompetitorMentions, getCompetitorNames } from '../utils/blocklist.js';
+import { formatInterviewTranscript, formatInterviewAnswers } from '../utils/interview-parser.js';
+import type { Article, ArticleGenerationResult, Interview } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 let anthropicClient: Anthropic | null = null;
 
-const ARTICLE_SYSTEM_PROMPT = `You are a content writer for Pretty Perspectives by Style Me Pretty.
+// Built from config/blocklist.json, so the prompt and the competitor policy list the same brands
+function articleSystemPrompt(): string {
+  return `You are a content writer for Pretty Perspectives by Style Me Pretty.
 
 CRITICAL RULE - COMPETITOR BLOCKING:
 You must NEVER mention, reference, cite, quote, or link to any of these competitor publications:
-- The Knot (theknot.com)
-- WeddingWire (weddingwire.com)
-- Zola (zola.com)
-- Brides (brides.com)
-- Martha Stewart Weddings (marthastewartweddings.com)
-- WeddingBee (weddingbee.com)
-- Junebug Weddings (junebugweddings.com)
-- Green Wedding Shoes (greenweddingshoes.com)
-- Ruffled Blog (ruffledblog.com)
+${describeCompetitors().map(competitor => `- ${competitor}`).join('\n')}
 
 If research context includes information from these sources, you may use the factual information but must NOT attribute it to them or link to them. When citing sources, only link to non-competitor publications.`;
+}
+
+export function initAIClient(apiKey: string | undefined): void {
+  // Replayed runs never reach the API, so they don't need a real key
+  anthropicClient = new Anthropic({ apiKey: apiKey || (isReplaying() ? 'replay' : undefined) });
+}
+
+export function getAIClient(): Anthropic {
+  if (!anthropicClient) throw new Error('AI client not initialized');
+  return anthropicClient;
+}
+
+function describeVendor(interview: Interview): string {
+  const name = interview.vendorName || 'Unknown Vendor';
+  return interview.businessName ? `${name} of ${interview.businessName}` : name;
+}
+
+// How many times a model gets to fix output that fails validation before we give up
+const MAX_OUTPUT_ATTEMPTS = 3;
+
+// An article body with less visible text than this is treated as empty
+const MIN_ARTICLE_TEXT_LENGTH = 200;
+
+const ARTICLE_TOOL: Anthropic.Tool = {
+  name: 'submit_article',
+  description: 'Submit the finished article. Call this exactly once with every field filled in.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Article title, complete and not cut off' },
+      excerpt: { type: 'string', description: '1-2 sentence preview for the article' },
+      metaTitle: { type: 'string', description: 'SEO title, if the brief asks for one' },
+      metaDescription: { type: 'string', description: 'Under 160 characters for SEO' },
+      tags: { type: 'array', items: { type: 'string' }, description: 'Relevant tags' },
+      html: { type: 'string', description: 'The complete article HTML' },
+    },
+    required: ['title', 'excerpt', 'metaDescription', 'tags', 'html'],
+  },
+};
+
+const LIST_TOOL: Anthropic.Tool = {
+  name: 'submit_list',
+  description: 'Submit the requested list of items.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['items'],
+  },
+};
+
+interface ArticleOutput {
+  title: string;
+  excerpt: string;
+  metaTitle?: string;
+  metaDescription: string;
+  tags: string[];
+  html: string;
+}
+
+type Validation<T> = { value: T; errors?: never } | { value?: never; errors: string[] };
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateArticle(input: Record<string, unknown>): Validation<ArticleOutput> {
+  const errors: string[] = [];
+  const text = (key: string): string => (typeof input[key] === 'string' ? (input[key] as string).trim() : '');
+
+  const title = text('title');
+  const html = cleanGeneratedHtml(text('html'));
+  const visibleText = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (!title) errors.push('title is missing or empty');
+  if (!/<[a-z][^>]*>/i.test(html)) {
+    errors.push('html must contain the article as HTML markup');
+  } else if (visibleText.length < MIN_ARTICLE_TEXT_LENGTH) {
+    errors.push(`html has only ${visibleText.length} characters of text; submit the complete article`);
+  }
+  if (input.tags !== undefined && !isStringArray(input.tags)) errors.push('tags must be a list of strings');
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      title: title.replace(/^["'*]+|["'*]+$/g, '').trim(),
+      excerpt: text('excerpt'),
+      metaTitle: text('metaTitle') || undefined,
+      metaDescription: text('metaDescription'),
+      tags: isStringArray(input.tags)
+        ? input.tags.map(t => t.trim().toLowerCase()).filter(t => t.length > 0)
+        : [],
+      html,
+    },
+  };
+}
+
+function validateList(input: Record<string, unknown>): Validation<{ items: string[] }> {
+  if (!isStringArray(input.items)) return { errors: ['items must be a list of strings'] };
+  return { value: { items: input.items.map(item => item.trim()).filter(item => item.length > 0) } };
+}
+
+// Remove escaping artifacts the model sometimes leaves in generated HTML
+function cleanGeneratedHtml(html: string): string {
+  return html
+    .replace(/\\"/g, '"')           // Fix escaped quotes
+    .replace(/\\'/g, "'")           // Fix escaped single quotes
+    .replace(/\\_/g, '_')           // Fix escaped underscores
+    .replace(/\\\*/g, '*')          // Fix escaped asterisks
+    .replace(/\\n/g, '\n')          // Fix literal \n
+    .replace(/&amp;quot;/g, '"')    // Fix double-encoded quotes
+    .replace(/&amp;#39;/g, "'");    // Fix double-encoded apostrophes
+}
+
+/**
+ * Ask for output through a forced tool call and validate it against the tool's schema.
+ * Invalid output is sent back as a tool error so the model can correct it; after
+ * MAX_OUTPUT_ATTEMPTS failures this throws rather than returning partial data.
+ */
+async function requestStructured<T>(
+  prompt: string,
+  tool: Anthropic.Tool,
+  validate: (input: Record<string, unknown>) => Validation<T>,
+  options: { task: ModelTask; system?: string }
+): Promise<T> {
+  if (!anthropicClient) throw new Error('AI client not initialized');
+
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+    const response = await createMessage(anthropicClient, options.task, {
+      ...(options.system ? { system: options.system } : {}),
+      tools: [tool],
+      tool_choice: { type: 'tool', name: tool.name },
+      messages,
+    });
+
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === tool.name
+    );
+
+    if (!toolUse) {
+      errors = [`no ${tool.name} call in the response`];
+    } else if (response.stop_reason === 'max_tokens') {
+      errors = ['the response was cut off before the output was complete; keep it shorter'];
+    } else {
+      const result = validate(toolUse.input as Record<string, unknown>);
+      if (!result.errors) return result.value;
+      errors = result.errors;
+    }
+
+    console.warn(`${tool.name} output rejected (attempt ${attempt}/${MAX_OUTPUT_ATTEMPTS}): ${errors.join('; ')}`);
 
-export function initAIClient(apiKey: string): void {
-  anthropicClient = new Anthropic({ apiKey });
+    const feedback = `Your output failed validation: ${errors.join('; ')}. Call ${tool.name} again with corrected, complete output.`;
+    messages.push({ role: 'assistant', content: response.content });
+    messages.push({
+      role: 'user',
+      content: toolUse
+        ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: feedback }]
+        : feedback,
+    });
+  }
+
+  throw new Error(`${tool.name} output still invalid after ${MAX_OUTPUT_ATTEMPTS} attempts: ${errors.join('; ')}`);
 }
 
+async function requestArticle(prompt: string): Promise<ArticleGenerationResult> {
+  const output = await requestStructured(prompt, ARTICLE_TOOL, validateArticle, {
+    task: 'article',
+    system: articleSystemPrompt(),
+  });
+
+  // Competitor names slip through the prompt now and then; every field readers see is checked
+  const [title, html, excerpt, metaDescription] = [output.title, output.html, output.excerpt, output.metaDescription]
+    .map(field => applyCompetitorPolicy(field));
+  const metaTitle = output.metaTitle
+    ? applyCompetitorPolicy(output.metaTitle)
+    : { content: `${title.content} | Style Me Pretty`, mentions: [] };
+  const mentions = [title, html, excerpt, metaDescription, metaTitle].flatMap(field => field.mentions);
+  if (mentions.length > 0) {
+    console.warn(`Competitor mentions in "${output.title}": ${formatCompetitorMentions(mentions)}`);
+  }
+
+  return {
+    article: {
+      title: title.content,
+      slug: '',
+      html: html.content,
+      excerpt: excerpt.content,
+      tags: output.tags,
+      metaTitle: metaTitle.content,
+      metaDescription: metaDescription.content,
+      status: 'draft',
+    },
+    suggestedTags: output.tags,
+    metaTitle: metaTitle.content,
+    metaDescription: metaDescription.content,
+    excerpt: excerpt.content,
+  };
+}
+
+
 function loadPromptTemplate(templateName: string): string {
   const promptPath = join(__dirname, `../../config/prompts/${templateName}.txt`);
   return readFileSync(promptPath, 'utf-8');
@@ -42,30 +239,11 @@ export async function generateInterviewArticle(
 
   const template = loadPromptTemplate('interview-profile');
   const prompt = template
-    .replace('{{interview_content}}', interview.content)
-    .replace('{{vendor_name}}', interview.vendorName || 'Unknown Vendor')
+    .replace('{{interview_content}}', formatInterviewTranscript(interview))
+    .replace('{{vendor_name}}', describeVendor(interview))
     .replace('{{vendor_type}}', interview.vendorType || 'Wedding Professional');
 
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    system: ARTICLE_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  const result = parseArticleResponse(content.text);
-  result.article.html = sanitizeBlockedLinks(result.article.html);
-  return result;
+  return requestArticle(prompt);
 }
 
 export async function generateThemeArticle(
@@ -78,32 +256,13 @@ export async function generateThemeArticle(
   const interviewsText = interviews
     .map(
       (i, idx) =>
-        `--- Interview ${idx + 1}: ${i.vendorName || i.title} (${i.vendorType || 'Wedding Professional'}) ---\n${i.content}`
+        `--- Interview ${idx + 1}: ${i.vendorName || i.title} (${i.vendorType || 'Wedding Professional'}) ---\n${formatInterviewTranscript(i)}`
     )
     .join('\n\n');
 
   const prompt = template.replace('{{interviews}}', interviewsText);
 
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    system: ARTICLE_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  const result = parseArticleResponse(content.text);
-  result.article.html = sanitizeBlockedLinks(result.article.html);
-  return result;
+  return requestArticle(prompt);
 }
 
 export async function generateInsightArticle(
@@ -117,28 +276,10 @@ export async function generateInsightArticle(
   const prompt = template
     .replace('{{insight}}', insight)
     .replace('{{vendor_name}}', vendorName)
-    .replace('{{research_context}}', researchContext);
-
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    system: ARTICLE_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+    .replace('{{research_context}}', researchContext)
+    .replace('{{competitors}}', getCompetitorNames().join(', '));
 
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  const result = parseArticleResponse(content.text);
-  result.article.html = sanitizeBlockedLinks(result.article.html);
-  return result;
+  return requestArticle(prompt);
 }
 
 export async function generateSEOArticle(
@@ -152,28 +293,50 @@ export async function generateSEOArticle(
   const prompt = template
     .replace('{{topic}}', topic)
     .replace('{{keywords}}', keywords.join(', '))
-    .replace('{{research_context}}', researchContext);
-
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    system: ARTICLE_SYSTEM_PROMPT,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+    .replace('{{research_context}}', researchContext)
+    .replace('{{competitors}}', getCompetitorNames().join(', '));
 
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
+  return requestArticle(prompt);
+}
+
+/**
+ * Apply one editorial change to an existing article, leaving the rest as it was.
+ * The source material (e.g. the interview transcript) lets new quotes come from
+ * what was actually said.
+ */
+export async function reviseArticle(
+  article: Article,
+  excerpt: string,
+  instruction: string,
+  sourceMaterial?: string
+): Promise<ArticleGenerationResult> {
+  if (!anthropicClient) throw new Error('AI client not initialized');
+
+  const prompt = `Revise this Pretty Perspectives article according to the editor's request.
+
+## Editor's Request
+${instruction}
+
+## Current Article
+Title: ${article.title}
+Excerpt: ${excerpt}
+Meta title: ${article.metaTitle || ''}
+Meta description: ${article.metaDescription || ''}
+Tags: ${(article.tags || []).join(', ')}
+
+HTML:
+${article.html}
+${sourceMaterial ? `
+## Source Material
+Any quotes you add must come word for word from here.
 
-  const result = parseArticleResponse(content.text);
-  result.article.html = sanitizeBlockedLinks(result.article.html);
-  return result;
+${sourceMaterial}
+` : ''}
+Make only the change requested. Keep every other section, quote, image placeholder, link and the HTML format exactly as they are, and keep the other fields unless the request affects them.
+
+IMPORTANT: Submit the complete revised article by calling the submit_article tool with all fields.`;
+
+  return requestArticle(prompt);
 }
 
 export async function analyzeInterviewsForThemes(
@@ -184,40 +347,23 @@ export async function analyzeInterviewsForThemes(
   const interviewsSummary = interviews
     .map(
       (i, idx) =>
-        `Interview ${idx + 1} (${i.vendorName || i.title}): ${i.content.slice(0, 500)}...`
+        `Interview ${idx + 1} (${i.vendorName || i.title}): ${formatInterviewAnswers(i).slice(0, 500)}...`
     )
     .join('\n\n');
 
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 1024,
-    messages: [
-      {
-        role: 'user',
-        content: `Analyze these vendor interviews and identify 3-5 compelling themes or topics that could make great articles. Return only a JSON array of theme titles, no explanation.
+  try {
+    const { items } = await requestStructured(
+      `Analyze these vendor interviews and identify 3-5 compelling themes or topics that could make great articles. Submit the theme titles with the submit_list tool.
 
 INTERVIEWS:
-${interviewsSummary}
-
-Return format: ["Theme 1", "Theme 2", "Theme 3"]`,
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  try {
-    // Extract JSON array from response
-    const match = content.text.match(/\[[\s\S]*\]/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-    return [];
-  } catch {
-    console.error('Failed to parse themes:', content.text);
+${interviewsSummary}`,
+      LIST_TOOL,
+      validateList,
+      { task: 'themes' }
+    );
+    return items;
+  } catch (error) {
+    console.error('Failed to extract themes:', error instanceof Error ? error.message : error);
     return [];
   }
 }
@@ -227,170 +373,23 @@ export async function extractInsightsFromInterview(
 ): Promise<string[]> {
   if (!anthropicClient) throw new Error('AI client not initialized');
 
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 1024,
-    messages: [
-      {
-        role: 'user',
-        content: `Read this vendor interview and extract 3-5 notable quotes or insights that could be expanded into their own articles. Look for unique perspectives, surprising advice, or thought-provoking statements.
-
-INTERVIEW (${interview.vendorName || interview.title}):
-${interview.content}
-
-Return only a JSON array of quotes/insights, no explanation.
-Return format: ["Quote or insight 1", "Quote or insight 2", "Quote or insight 3"]`,
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
   try {
-    const match = content.text.match(/\[[\s\S]*\]/);
-    if (match) {
-      return JSON.parse(match[0]);
-    }
-    return [];
-  } catch {
-    console.error('Failed to parse insights:', content.text);
+    const { items } = await requestStructured(
+      `Read this vendor interview and extract 3-5 notable quotes or insights that could be expanded into their own articles. Look for unique perspectives, surprising advice, or thought-provoking statements. Submit them with the submit_list tool.
+
+INTERVIEW ANSWERS (${interview.vendorName || interview.title}):
+${formatInterviewAnswers(interview)}`,
+      LIST_TOOL,
+      validateList,
+      { task: 'insights' }
+    );
+    return items;
+  } catch (error) {
+    console.error('Failed to extract insights:', error instanceof Error ? error.message : error);
     return [];
   }
 }
 
-function parseArticleResponse(text: string): ArticleGenerationResult {
-  // Extract HTML content (between first and last HTML tags or code blocks)
-  let html = '';
-  const htmlMatch = text.match(/```html\s*([\s\S]*?)```/);
-  if (htmlMatch) {
-    html = htmlMatch[1].trim();
-  } else {
-    // Try to find HTML directly
-    const directHtmlMatch = text.match(/<[^>]+>[\s\S]*<\/[^>]+>/);
-    if (directHtmlMatch) {
-      html = directHtmlMatch[0];
-    }
-  }
-
-  // Extract title - try multiple patterns
-  let title = '';
-
-  // Pattern 1: Look for "Title:" or "**Title:**" in response
-  const titlePatterns = [
-    /\*\*Title[:\*]*\*\*\s*["']?([^"'\n]+)["']?/i,
-    /Title:\s*["']?([^"'\n]+)["']?/i,
-    /^#\s+(.+)$/m,
-    /Suggested [Tt]itle:\s*["']?([^"'\n]+)["']?/i,
-  ];
-
-  for (const pattern of titlePatterns) {
-    const match = text.match(pattern);
-    if (match && match[1].trim()) {
-      title = match[1].trim().replace(/^\*+|\*+$/g, '').replace(/^["']|["']$/g, '');
-      break;
-    }
-  }
-
-  // Pattern 2: Extract from H1 in HTML
-  if (!title) {
-    const h1Match = html.match(/<h1[^>]*>(.*?)<\/h1>/i);
-    if (h1Match) {
-      title = h1Match[1].replace(/<[^>]*>/g, '').trim();
-    }
-  }
-
-  // Pattern 3: Look for first strong/bold text that looks like a title
-  if (!title) {
-    const strongMatch = text.match(/\*\*([A-Z][^*\n]{10,80})\*\*/);
-    if (strongMatch) {
-      title = strongMatch[1].trim();
-    }
-  }
-
-  // Pattern 4: Fallback - generate from first meaningful heading in HTML
-  if (!title) {
-    const h2Match = html.match(/<h2[^>]*>(.*?)<\/h2>/i);
-    if (h2Match) {
-      title = h2Match[1].replace(/<[^>]*>/g, '').trim();
-    }
-  }
-
-  // Clean up title
-  title = title.replace(/^["'\*]+|["'\*]+$/g, '').replace(/\\"/g, '"').trim();
-
-  // Clean up HTML - remove escaped quotes and other artifacts
-  html = html
-    .replace(/\\"/g, '"')           // Fix escaped quotes
-    .replace(/\\'/g, "'")           // Fix escaped single quotes
-    .replace(/\\_/g, '_')           // Fix escaped underscores
-    .replace(/\\\*/g, '*')          // Fix escaped asterisks
-    .replace(/\\n/g, '\n')          // Fix literal \n
-    .replace(/&amp;quot;/g, '"')    // Fix double-encoded quotes
-    .replace(/&amp;#39;/g, "'");    // Fix double-encoded apostrophes
-
-  // Extract suggested tags
-  let suggestedTags: string[] = [];
-  const tagsMatch = text.match(/Tags?:\s*(.+)/i);
-  if (tagsMatch) {
-    suggestedTags = tagsMatch[1]
-      .split(',')
-      .map(t => t.trim().toLowerCase().replace(/^["'\*]+|["'\*]+$/g, '').trim())
-      .filter(t => t.length > 0);
-  }
-
-  // Extract meta description
-  let metaDescription = '';
-  const metaPatterns = [
-    /Meta\s*[Dd]escription:\s*["']?([^"'\n]+)["']?/i,
-    /\*\*Meta [Dd]escription[:\*]*\*\*\s*["']?([^"'\n]+)["']?/i,
-  ];
-  for (const pattern of metaPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      metaDescription = match[1].trim();
-      break;
-    }
-  }
-
-  // Extract excerpt
-  let excerpt = '';
-  const excerptPatterns = [
-    /Excerpt:\s*["']?([^"'\n]+)["']?/i,
-    /\*\*Excerpt[:\*]*\*\*\s*["']?([^"'\n]+)["']?/i,
-    /Custom [Ee]xcerpt:\s*["']?([^"'\n]+)["']?/i,
-  ];
-  for (const pattern of excerptPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      excerpt = match[1].trim().replace(/^\*+|\*+$/g, '').trim();
-      break;
-    }
-  }
-
-  // Generate meta title from title
-  const metaTitle = title ? `${title} | Style Me Pretty` : '';
-
-  return {
-    article: {
-      title,
-      slug: '',
-      html,
-      excerpt,
-      tags: suggestedTags,
-      metaTitle,
-      metaDescription,
-      status: 'draft',
-    },
-    suggestedTags,
-    metaTitle,
-    metaDescription,
-    excerpt,
-  };
-}
-
 export async function chat(
   messages: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<string> {
@@ -418,16 +417,14 @@ You help create content, analyze vendor interviews, and suggest article ideas th
 - Use "we" when referring to Style Me Pretty
 
 ## CONTENT RULES
-- Never mention competitors (The Knot, WeddingWire, Zola, Brides, Martha Stewart Weddings)
+- Never mention competitors (${getCompetitorNames().join(', ')})
 - Always include a CTA for Style Me Pretty vendor directory when appropriate
 - Use the Ghost CMS HTML format with kg-card classes
 - Start articles with a TL;DR callout card
 
 When asked to create articles, generate HTML content matching the Style Me Pretty format exactly.`;
 
-  const response = await anthropicClient.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
+  const response = await createMessage(anthropicClient, 'chat', {
     system: systemPrompt,
     messages: messages.map(m => ({
       role: m.role,
@@ -440,5 +437,31 @@ When asked to create articles, generate HTML content matching the Style Me Prett
     throw new Error('Unexpected response type from Claude');
   }
 
-  return content.text;
+  return applyCompetitorPolicy(content.text).content;
+}
+
+/**
+ * Condense the earlier part of a chat so it can stand in for those turns.
+ * The previous summary, if any, is folded into the new one.
+ */
+export async function summarizeConversation(conversation: string, previousSummary?: string): Promise<string> {
+  if (!anthropicClient) throw new Error('AI client not initialized');
+
+  const prompt = `Summarize this conversation between a Pretty Perspectives editor and their content assistant, so the assistant can carry on without the full history.
+
+Keep: what the editor asked for and decided, articles discussed or drafted (titles, post IDs, document IDs, URLs), findings from interviews and research that may come up again, and anything still unfinished. Leave out pleasantries and raw tool output. Write it as concise notes.
+${previousSummary ? `\n## Summary of the conversation before this\n${previousSummary}\n` : ''}
+## Conversation
+${conversation}`;
+
+  const response = await createMessage(anthropicClient, 'chat', {
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const content = response.content[0];
+  if (content.type !== 'text') {
+    throw new Error('Unexpected response type from Claude');
+  }
+
+  return content.text.trim();
 }
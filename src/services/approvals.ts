@@ -0,0 +1,168 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { getStateDirectory } from './state-store.js';
+
+// Agent tools that change Ghost, and so wait for an editor in approval mode
+export type ApprovalTool = 'create_draft' | 'update_draft';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ApprovalRequest {
+  id: string;
+  tool: ApprovalTool;
+  // The tool input as the agent sent it, with any changes made in review
+  input: Record<string, unknown>;
+  sourceId?: string;
+  runId: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  reviewedAt?: string;
+  feedback?: string;
+  // The post created or updated once approved
+  postId?: string;
+  postUrl?: string;
+}
+
+interface ApprovalsFile {
+  approvals: ApprovalRequest[];
+}
+
+/**
+ * Whether agent runs queue their Ghost changes for review (REQUIRE_APPROVAL=true).
+ */
+export function isApprovalRequired(): boolean {
+  return process.env.REQUIRE_APPROVAL === 'true';
+}
+
+// Kept next to the content state, so sandbox approvals stay in the sandbox
+function getApprovalsFile(): string {
+  return join(getStateDirectory(), 'approvals.json');
+}
+
+function getPreviewDir(): string {
+  return join(getStateDirectory(), 'approvals');
+}
+
+function load(): ApprovalsFile {
+  const path = getApprovalsFile();
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as ApprovalsFile : { approvals: [] };
+}
+
+function save(file: ApprovalsFile): void {
+  writeFileSync(getApprovalsFile(), JSON.stringify(file, null, 2));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// A standalone page showing the draft as it would be created (or the fields an update changes)
+function writePreview(approval: ApprovalRequest): void {
+  const dir = getPreviewDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+  const { title, excerpt, tags, html } = approval.input as { title?: string; excerpt?: string; tags?: string[]; html?: string };
+  const unchanged = '<em>(unchanged)</em>';
+  const heading = approval.tool === 'update_draft' ? `Update to post ${approval.input.postId}` : 'New draft';
+
+  writeFileSync(join(dir, `${approval.id}.html`), `<!doctype html>
+<meta charset="utf-8">
+<title>${escapeHtml(title || approval.id)}</title>
+<p><strong>${heading}</strong> · approval ${approval.id} · run ${approval.runId}</p>
+<p><strong>Tags:</strong> ${tags ? escapeHtml(tags.join(', ')) : unchanged}</p>
+<p><strong>Excerpt:</strong> ${excerpt ? escapeHtml(excerpt) : unchanged}</p>
+<hr>
+<h1>${title ? escapeHtml(title) : unchanged}</h1>
+${html || unchanged}
+`);
+}
+
+export function getPreviewUrl(approval: ApprovalRequest): string {
+  return pathToFileURL(join(getPreviewDir(), `${approval.id}.html`)).href;
+}
+
+export function queueApproval(
+  tool: ApprovalTool,
+  input: Record<string, unknown>,
+  options: { sourceId?: string; runId: string }
+): ApprovalRequest {
+  const file = load();
+  const approval: ApprovalRequest = {
+    id: `${tool === 'create_draft' ? 'create' : 'update'}-${Math.random().toString(36).slice(2, 8)}`,
+    tool,
+    input,
+    sourceId: options.sourceId,
+    runId: options.runId,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+
+  file.approvals.push(approval);
+  save(file);
+  writePreview(approval);
+  return approval;
+}
+
+export function listApprovals(status?: ApprovalStatus): ApprovalRequest[] {
+  return load().approvals.filter(a => !status || a.status === status);
+}
+
+export function getApproval(id: string): ApprovalRequest | undefined {
+  return load().approvals.find(a => a.id === id);
+}
+
+export function findPendingApproval(sourceId: string): ApprovalRequest | undefined {
+  return load().approvals.find(a => a.status === 'pending' && a.sourceId === sourceId);
+}
+
+/**
+ * Apply an editor's changes to a queued tool call before it's approved.
+ */
+export function editApproval(id: string, changes: Record<string, unknown>): ApprovalRequest {
+  const file = load();
+  const approval = file.approvals.find(a => a.id === id);
+  if (!approval) throw new Error(`No approval request ${id}`);
+  if (approval.status !== 'pending') throw new Error(`Approval request ${id} is already ${approval.status}`);
+
+  approval.input = { ...approval.input, ...changes };
+  save(file);
+  writePreview(approval);
+  return approval;
+}
+
+export function resolveApproval(
+  id: string,
+  status: 'approved' | 'rejected',
+  details: { feedback?: string; postId?: string; postUrl?: string } = {}
+): ApprovalRequest {
+  const file = load();
+  const approval = file.approvals.find(a => a.id === id);
+  if (!approval) throw new Error(`No approval request ${id}`);
+
+  Object.assign(approval, details, { status, reviewedAt: new Date().toISOString() });
+  save(file);
+  return approval;
+}
+
+/**
+ * Feedback from rejected attempts at a source since it last had a change approved,
+ * oldest first, formatted to append to the agent's next request ('' when there is none).
+ */
+export function formatEditorFeedback(sourceId: string): string {
+  const feedback: string[] = [];
+
+  for (const approval of load().approvals) {
+    if (approval.sourceId !== sourceId) continue;
+    if (approval.status === 'approved') feedback.length = 0;
+    if (approval.status === 'rejected' && approval.feedback) feedback.push(approval.feedback);
+  }
+
+  if (feedback.length === 0) return '';
+
+  return `
+
+## Editor Feedback
+An editor rejected the previous attempt${feedback.length > 1 ? 's' : ''} at this article. Address this feedback:
+${feedback.map(f => `- ${f}`).join('\n')}`;
+}
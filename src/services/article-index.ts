@@ -0,0 +1,103 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getArticlesUpdatedSince, getExistingArticles } from './ghost.js';
+import { getStateDirectory } from './state-store.js';
+import { htmlToText } from '../utils/sections.js';
+import type { ExistingArticle } from '../types/index.js';
+
+// updated_at can't show deleted posts, so the full list of post IDs is compared at most this often
+const DELETION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Statuses that count as existing content
+const LIVE_STATUSES = ['draft', 'published', 'scheduled'];
+
+export interface IndexedArticle extends ExistingArticle {
+  // Plain text of the post body
+  text: string;
+}
+
+interface ArticleIndexFile {
+  // Latest updated_at seen; the next sync only asks Ghost for posts edited since
+  syncedThrough?: string;
+  checkedDeletionsAt?: string;
+  articles: Record<string, IndexedArticle>;
+}
+
+// Kept next to the content state, so the sandbox's posts get their own index
+function getIndexPath(): string {
+  return join(getStateDirectory(), 'article-index.json');
+}
+
+/**
+ * Bring the local copy of the Ghost posts up to date. Only posts edited since
+ * the last sync are downloaded; `rebuild` downloads everything again.
+ * Returns the live (draft, scheduled and published) articles, newest first.
+ */
+export async function syncArticleIndex(
+  options: { rebuild?: boolean } = {}
+): Promise<{ articles: IndexedArticle[]; updated: number; removed: number }> {
+  const path = getIndexPath();
+  const index: ArticleIndexFile = !options.rebuild && existsSync(path)
+    ? JSON.parse(readFileSync(path, 'utf-8'))
+    : { articles: {} };
+
+  // The filter is inclusive, so the last post seen comes back every time
+  const changed = (await getArticlesUpdatedSince(index.syncedThrough))
+    .filter(article => index.articles[article.id]?.updatedAt !== article.updatedAt);
+
+  for (const { html, ...article } of changed) {
+    index.articles[article.id] = { ...article, text: htmlToText(html) };
+    if (article.updatedAt && (!index.syncedThrough || article.updatedAt > index.syncedThrough)) {
+      index.syncedThrough = article.updatedAt;
+    }
+  }
+
+  let removed = 0;
+  const lastDeletionCheck = index.checkedDeletionsAt ? Date.parse(index.checkedDeletionsAt) : 0;
+  if (Date.now() - lastDeletionCheck >= DELETION_CHECK_INTERVAL_MS) {
+    const current = new Set((await getExistingArticles()).map(article => article.id));
+    for (const id of Object.keys(index.articles)) {
+      if (!current.has(id)) {
+        delete index.articles[id];
+        removed++;
+      }
+    }
+    index.checkedDeletionsAt = new Date().toISOString();
+  }
+
+  writeFileSync(path, JSON.stringify(index));
+
+  const articles = Object.values(index.articles)
+    .filter(article => LIVE_STATUSES.includes(article.status || ''))
+    .sort((a, b) => (b.publishedAt || b.updatedAt || '').localeCompare(a.publishedAt || a.updatedAt || ''));
+
+  return { articles, updated: changed.length, removed };
+}
+
+/**
+ * Every draft, scheduled and published article, newest first, from the local index.
+ */
+export async function getIndexedArticles(): Promise<IndexedArticle[]> {
+  return (await syncArticleIndex()).articles;
+}
+
+/**
+ * Articles mentioning the query: matches in the title, slug or tags first,
+ * then matches in the excerpt or body.
+ */
+export async function searchArticles(query: string): Promise<IndexedArticle[]> {
+  const lowerQuery = query.toLowerCase().trim();
+  const articles = await getIndexedArticles();
+
+  const inHeadline = articles.filter(article =>
+    article.title.toLowerCase().includes(lowerQuery) ||
+    article.slug.includes(lowerQuery.replace(/\s+/g, '-')) ||
+    (article.tags || []).some(tag => tag.toLowerCase().includes(lowerQuery))
+  );
+  const inBody = articles.filter(article =>
+    !inHeadline.includes(article) &&
+    `${article.excerpt || ''}\n${article.text}`.toLowerCase().includes(lowerQuery)
+  );
+
+  return [...inHeadline, ...inBody];
+}
@@ -0,0 +1,138 @@
+import { getScheduledArticles, scheduleArticle } from './ghost.js';
+
+export type ContentType = 'seo' | 'theme' | 'interview';
+
+export const CONTENT_TYPES: ContentType[] = ['seo', 'theme', 'interview'];
+
+// One slot per content type each week, matching the weekly scheduler's mix
+// (SEO piece, theme article, interview profile). Values are weekdays, 0 = Sunday.
+const WEEKLY_SLOTS: Record<ContentType, number> = {
+  seo: 2,        // Tuesday
+  theme: 4,      // Thursday
+  interview: 6,  // Saturday
+};
+
+const PUBLISH_HOUR = parseInt(process.env.PUBLISH_HOUR || '9', 10);
+
+// Ghost internal tags (prefixed with #) are hidden from readers
+const CONTENT_TYPE_TAG_PREFIX = '#calendar-';
+
+export interface CalendarEntry {
+  id: string;
+  title: string;
+  slug: string;
+  publishAt: Date;
+  contentType?: ContentType;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+function weekKey(date: Date): string {
+  // Weeks start on Monday
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+function contentTypeTag(contentType: ContentType): string {
+  return `${CONTENT_TYPE_TAG_PREFIX}${contentType}`;
+}
+
+function contentTypeFromTags(tags: string[]): ContentType | undefined {
+  const tag = tags.find(t => t.startsWith(CONTENT_TYPE_TAG_PREFIX));
+  const type = tag?.slice(CONTENT_TYPE_TAG_PREFIX.length) as ContentType | undefined;
+  return type && CONTENT_TYPES.includes(type) ? type : undefined;
+}
+
+export function isContentType(value: string): value is ContentType {
+  return CONTENT_TYPES.includes(value as ContentType);
+}
+
+export async function getCalendar(weeks: number = 4): Promise<CalendarEntry[]> {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + weeks * 7);
+
+  const scheduled = await getScheduledArticles();
+
+  return scheduled
+    .filter(post => post.publishedAt)
+    .map(post => ({
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      publishAt: new Date(post.publishedAt!),
+      contentType: contentTypeFromTags(post.tags || []),
+    }))
+    .filter(entry => entry.publishAt <= horizon);
+}
+
+/**
+ * Find the earliest open publish slot for a content type: its weekday in a
+ * week that doesn't already have that type, on a day with nothing else scheduled.
+ */
+export function findNextSlot(
+  contentType: ContentType,
+  entries: CalendarEntry[],
+  from: Date = new Date()
+): Date {
+  const takenDays = new Set(entries.map(e => dayKey(e.publishAt)));
+  const filledWeeks = new Set(
+    entries.filter(e => e.contentType === contentType).map(e => weekKey(e.publishAt))
+  );
+
+  const candidate = new Date(from);
+  candidate.setHours(PUBLISH_HOUR, 0, 0, 0);
+  if (candidate <= from) {
+    candidate.setDate(candidate.getDate() + 1);
+  }
+
+  // A year of candidates is more than enough to find a free slot
+  for (let i = 0; i < 366; i++) {
+    if (
+      candidate.getDay() === WEEKLY_SLOTS[contentType] &&
+      !takenDays.has(dayKey(candidate)) &&
+      !filledWeeks.has(weekKey(candidate))
+    ) {
+      return candidate;
+    }
+    candidate.setDate(candidate.getDate() + 1);
+  }
+
+  throw new Error(`No open ${contentType} slot found in the next year`);
+}
+
+/**
+ * Put a draft on the calendar. Without a date, the next open slot for its
+ * content type is used. An explicit date is rejected if another post is
+ * already scheduled that day.
+ */
+export async function scheduleOnCalendar(
+  postId: string,
+  contentType: ContentType,
+  date?: Date
+): Promise<{ publishAt: Date; url: string }> {
+  const entries = (await getCalendar(52)).filter(e => e.id !== postId);
+
+  let publishAt: Date;
+  if (date) {
+    publishAt = new Date(date);
+    publishAt.setHours(PUBLISH_HOUR, 0, 0, 0);
+
+    const clash = entries.find(e => dayKey(e.publishAt) === dayKey(publishAt));
+    if (clash) {
+      const next = findNextSlot(contentType, entries, publishAt);
+      throw new Error(
+        `"${clash.title}" is already scheduled on ${publishAt.toLocaleDateString()}. ` +
+        `Next open ${contentType} slot: ${next.toLocaleDateString()}`
+      );
+    }
+  } else {
+    publishAt = findNextSlot(contentType, entries);
+  }
+
+  const result = await scheduleArticle(postId, publishAt, [contentTypeTag(contentType)]);
+
+  return { publishAt, url: result.url };
+}
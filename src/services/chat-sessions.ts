@@ -0,0 +1,139 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getStateDirectory, newRunId } from './state-store.js';
+import { summarizeConversation } from './ai.js';
+import { truncateText } from '../utils/metadata.js';
+
+// Past this much history (~40k tokens), older turns are folded into the summary
+const MAX_HISTORY_CHARS = 160_000;
+// Editor messages (with everything after them) always kept word for word
+const KEEP_RECENT_TURNS = 4;
+
+export interface ChatSession {
+  // Also the run ID for the session's usage and agent transcripts
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // Stands in for the turns that were dropped from `messages`
+  summary?: string;
+  summarizedTurns: number;
+  // Working draft open for editing, if any
+  activeDraft?: string | null;
+  messages: Anthropic.MessageParam[];
+}
+
+// Kept next to the content state, so sandbox sessions stay in the sandbox
+function getSessionsDir(): string {
+  return join(getStateDirectory(), 'chat-sessions');
+}
+
+function getSessionPath(id: string): string {
+  return join(getSessionsDir(), `${id}.json`);
+}
+
+export function createChatSession(): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: newRunId('chat'),
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    summarizedTurns: 0,
+    activeDraft: null,
+    messages: [],
+  };
+}
+
+/**
+ * Write the session to disk; the first editor message becomes its title.
+ * Sessions with nothing said yet aren't saved.
+ */
+export function saveChatSession(session: ChatSession): void {
+  if (!session.title) {
+    const first = session.messages.find(m => m.role === 'user' && typeof m.content === 'string');
+    if (!first && !session.activeDraft) return;
+    session.title = first ? truncateText((first.content as string).replace(/\s+/g, ' '), 60) : `Editing ${session.activeDraft}`;
+  }
+
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  session.updatedAt = new Date().toISOString();
+  writeFileSync(getSessionPath(session.id), JSON.stringify(session, null, 2));
+}
+
+export function loadChatSession(id: string): ChatSession | null {
+  const path = getSessionPath(id);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as ChatSession : null;
+}
+
+/**
+ * Saved sessions, most recently used first.
+ */
+export function listChatSessions(): ChatSession[] {
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(readFileSync(join(dir, file), 'utf-8')) as ChatSession)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Editor messages start a turn; tool results are also sent as user messages but don't
+function isEditorMessage(message: Anthropic.MessageParam): boolean {
+  return message.role === 'user' && typeof message.content === 'string';
+}
+
+export function countTurns(session: ChatSession): number {
+  return session.summarizedTurns + session.messages.filter(isEditorMessage).length;
+}
+
+function formatForSummary(messages: Anthropic.MessageParam[]): string {
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      lines.push(`${message.role === 'user' ? 'Editor' : 'Assistant'}: ${message.content}`);
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        lines.push(`Assistant: ${block.text}`);
+      } else if (block.type === 'tool_use') {
+        lines.push(`[Assistant used ${block.name}: ${truncateText(JSON.stringify(block.input), 300)}]`);
+      } else if (block.type === 'tool_result') {
+        const content = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+        lines.push(`[Result: ${truncateText(content || '', 500)}]`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Keep a long session within the context window: once the history is too big,
+ * everything before the last few editor messages is summarized and dropped.
+ * Cuts always fall on an editor message, so tool calls keep their results.
+ * Returns whether anything was summarized.
+ */
+export async function compactChatSession(session: ChatSession): Promise<boolean> {
+  if (JSON.stringify(session.messages).length <= MAX_HISTORY_CHARS) return false;
+
+  const turnStarts = session.messages
+    .map((message, index) => (isEditorMessage(message) ? index : -1))
+    .filter(index => index >= 0);
+  if (turnStarts.length <= KEEP_RECENT_TURNS) return false;
+
+  const cut = turnStarts[turnStarts.length - KEEP_RECENT_TURNS];
+  const older = session.messages.slice(0, cut);
+
+  session.summary = await summarizeConversation(formatForSummary(older), session.summary);
+  session.summarizedTurns += older.filter(isEditorMessage).length;
+  session.messages = session.messages.slice(cut);
+  saveChatSession(session);
+  return true;
+}
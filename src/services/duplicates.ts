@@ -0,0 +1,235 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { getIndexedArticles, type IndexedArticle } from './article-index.js';
+import { generateSlug } from '../utils/metadata.js';
+import { tokenize, shingles, stem } from '../utils/tokenize.js';
+import type { ExistingArticle } from '../types/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+interface DuplicatesConfig {
+  // A match scoring at least this is treated as the same article
+  duplicateThreshold: number;
+  // Matches scoring at least this are reported as related
+  similarThreshold: number;
+  // Share of the score that comes from the title; the rest comes from the body
+  titleWeight: number;
+  maxMatches: number;
+}
+
+const DEFAULT_CONFIG: DuplicatesConfig = {
+  duplicateThreshold: 0.6,
+  similarThreshold: 0.35,
+  titleWeight: 0.5,
+  maxMatches: 5,
+};
+
+let duplicatesConfig: DuplicatesConfig | null = null;
+
+export function loadDuplicatesConfig(): DuplicatesConfig {
+  if (duplicatesConfig) return duplicatesConfig;
+
+  try {
+    const configPath = join(__dirname, '../../config/duplicates.json');
+    duplicatesConfig = { ...DEFAULT_CONFIG, ...JSON.parse(readFileSync(configPath, 'utf-8')) };
+  } catch {
+    console.warn('Warning: Could not load duplicates.json, using default thresholds');
+    duplicatesConfig = { ...DEFAULT_CONFIG };
+  }
+  return duplicatesConfig!;
+}
+
+export interface SimilarityMatch {
+  article: ExistingArticle;
+  // 0-1, weighted from the two scores below (1 for the same title or slug)
+  score: number;
+  titleScore: number;
+  bodyScore: number;
+  sharedTerms: string[];
+  explanation: string;
+}
+
+export interface DuplicateCheckResult {
+  isDuplicate: boolean;
+  // Everything at or above the similar threshold, best first
+  matches: SimilarityMatch[];
+}
+
+export interface DuplicateCandidate {
+  title: string;
+  // Draft body or summary, when there is one; otherwise only the title is compared
+  text?: string;
+}
+
+export interface SimilarityIndex {
+  size: number;
+  check(candidate: DuplicateCandidate): DuplicateCheckResult;
+}
+
+type Vector = Map<string, number>;
+
+// Word pairs count for less than single words, so a reworded title isn't penalized for every pair it breaks
+const PHRASE_WEIGHT = 0.5;
+
+// Words plus adjacent word pairs, so shared phrases count for more than shared words
+function features(text: string): string[] {
+  const tokens = tokenize(text);
+  return [...tokens, ...shingles(tokens)];
+}
+
+function weigh(terms: string[], idf: (term: string) => number): Vector {
+  const vector: Vector = new Map();
+  for (const term of terms) {
+    vector.set(term, (vector.get(term) || 0) + 1);
+  }
+  for (const [term, count] of vector) {
+    vector.set(term, (1 + Math.log(count)) * idf(term) * (term.includes(' ') ? PHRASE_WEIGHT : 1));
+  }
+  return vector;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    dot += weight * (b.get(term) || 0);
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Share of the candidate's (idf-weighted) words that appear anywhere in the article
+function coverage(candidate: Vector, article: Vector): number {
+  let covered = 0;
+  let total = 0;
+  for (const [term, weight] of candidate) {
+    if (term.includes(' ')) continue;
+    total += weight;
+    if (article.has(term)) covered += weight;
+  }
+  return total ? covered / total : 0;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Build a TF-IDF index over the title and body of each article. Candidates are
+ * scored on title similarity (cosine) and body similarity: cosine against the
+ * draft text when there is one, otherwise how much of the title's vocabulary the
+ * article body covers. Rare terms count for more than words every post uses.
+ */
+export function buildSimilarityIndex(articles: IndexedArticle[]): SimilarityIndex {
+  const config = loadDuplicatesConfig();
+
+  const documents = articles.map(article => {
+    const titleTerms = features(article.title);
+    const bodyTerms = features(`${article.title}\n${article.text}`);
+    return { article, titleTerms, bodyTerms };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const { bodyTerms } of documents) {
+    for (const term of new Set(bodyTerms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log((documents.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+  const vectors = documents.map(({ article, titleTerms, bodyTerms }) => ({
+    article,
+    title: weigh(titleTerms, idf),
+    body: weigh(bodyTerms, idf),
+  }));
+
+  return {
+    size: articles.length,
+
+    check(candidate) {
+      const slug = generateSlug(candidate.title);
+      const normalizedTitle = normalizeTitle(candidate.title);
+      const titleVector = weigh(features(candidate.title), idf);
+      const bodyVector = candidate.text ? weigh(features(`${candidate.title}\n${candidate.text}`), idf) : null;
+
+      // Show shared terms as the candidate wrote them rather than as stems
+      const surface = new Map<string, string>();
+      for (const word of `${candidate.title} ${candidate.text || ''}`.toLowerCase().split(/[^a-z0-9]+/)) {
+        if (word && !surface.has(stem(word))) surface.set(stem(word), word);
+      }
+
+      const matches: SimilarityMatch[] = [];
+      for (const { article, title, body } of vectors) {
+        const { text: _text, ...existing } = article;
+
+        if (existing.slug === slug || normalizeTitle(existing.title) === normalizedTitle) {
+          matches.push({
+            article: existing,
+            score: 1,
+            titleScore: 1,
+            bodyScore: 1,
+            sharedTerms: [],
+            explanation: existing.slug === slug ? 'same slug' : 'same title',
+          });
+          continue;
+        }
+
+        const titleScore = cosine(titleVector, title);
+        const bodyScore = bodyVector ? cosine(bodyVector, body) : coverage(titleVector, body);
+        const score = config.titleWeight * titleScore + (1 - config.titleWeight) * bodyScore;
+        if (score < config.similarThreshold) continue;
+
+        const sharedTerms = [...(bodyVector || titleVector).entries()]
+          .filter(([term]) => !term.includes(' ') && body.has(term))
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 6)
+          .map(([term]) => surface.get(term) || term);
+
+        matches.push({
+          article: existing,
+          score,
+          titleScore,
+          bodyScore,
+          sharedTerms,
+          explanation: `title ${percent(titleScore)} similar, body ${percent(bodyScore)} similar`
+            + (sharedTerms.length ? `; shared terms: ${sharedTerms.join(', ')}` : ''),
+        });
+      }
+
+      matches.sort((a, b) => b.score - a.score);
+      return {
+        isDuplicate: matches.length > 0 && matches[0].score >= config.duplicateThreshold,
+        matches: matches.slice(0, config.maxMatches),
+      };
+    },
+  };
+}
+
+/**
+ * Index every draft, scheduled and published post, from the local article index.
+ */
+export async function loadSimilarityIndex(): Promise<SimilarityIndex> {
+  return buildSimilarityIndex(await getIndexedArticles());
+}
+
+/**
+ * Compare a proposed article with everything on Ghost.
+ */
+export async function checkForDuplicates(title: string, text?: string): Promise<DuplicateCheckResult> {
+  const index = await loadSimilarityIndex();
+  return index.check({ title, text });
+}
+
+export function formatMatch(match: SimilarityMatch): string {
+  return `"${match.article.title}" (${percent(match.score)}: ${match.explanation})`;
+}
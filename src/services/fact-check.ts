@@ -0,0 +1,226 @@
+import { getDocumentSnapshot } from './google-docs.js';
+import { fetchResearchSource } from './source-store.js';
+import { isBlockedDomain } from '../utils/blocklist.js';
+import { htmlToText } from '../utils/sections.js';
+import { tokenize } from '../utils/tokenize.js';
+
+// A figure counts as sourced when the passage it's found in shares this much of the claim's wording
+const MIN_FIGURE_CONTEXT = 0.25;
+// Claims without figures ("studies show...") need most of their wording in one passage
+const MIN_CLAIM_OVERLAP = 0.5;
+// Links read from an article when gathering its sources
+const MAX_LINKED_SOURCES = 10;
+
+// Wording that cites a source, which makes a sentence a finding rather than advice.
+// Only explicit citations: "data", "research" or "average" on their own are everyday words
+const ATTRIBUTION = /\b(according to|(a|the|one|this|our|their|recent|new|latest)( \w+)? (study|survey|report|poll|analysis) (found|finds|shows?|showed|suggests?|revealed|reveals)|(studies|surveys|research|data|statistics) (show|shows|showed|found|finds|suggest|suggests|reveal|reveals)|researchers (found|say|said)|(were|was) surveyed)\b/i;
+
+// Shares of a group ("38% of couples", "one in three", "3 out of 4")
+const PROPORTION = /\b(\d+|one|two|three|four|five) (in|out of) (\d+|two|three|four|five|ten)\b/i;
+
+// Numbers, with an optional leading $ and trailing unit
+const FIGURE = /(?<![\w.])(\$\s?)?(\d[\d,]*(?:\.\d+)?)(\s?(?:%|percent\b|per cent\b|million\b|billion\b|k\b))?/gi;
+
+/**
+ * What to do when an article has claims no source supports (FACT_CHECK):
+ * `report` (the default) creates the draft and returns the report, `block`
+ * refuses to create it, `off` skips the check.
+ */
+export type FactCheckMode = 'block' | 'report' | 'off';
+
+export function getFactCheckMode(): FactCheckMode {
+  const mode = process.env.FACT_CHECK;
+  return mode === 'block' || mode === 'off' ? mode : 'report';
+}
+
+/**
+ * Text an article may take facts from: research context, a page it cites, or its source doc.
+ */
+export interface Evidence {
+  label: string;
+  text: string;
+}
+
+export interface ClaimCheck {
+  claim: string;
+  // As written in the article ("38%", "$4,500")
+  figures: string[];
+  supported: boolean;
+  // Labels of the evidence the claim was found in
+  sources: string[];
+  // Figures no source has in a matching passage
+  unsupportedFigures: string[];
+}
+
+export interface FactCheckReport {
+  // Sentences that state a figure or a finding
+  checked: number;
+  unsupported: ClaimCheck[];
+  // Labels of the evidence the claims were checked against
+  sources: string[];
+}
+
+interface Figure {
+  text: string;
+  value: string;
+}
+
+interface Passage {
+  label: string;
+  figures: Set<string>;
+  tokens: Set<string>;
+}
+
+// "38 percent" and "38%", or "$5k" and "5,000", compare equal
+function findFigures(text: string): Array<Figure & { hasUnit: boolean }> {
+  return [...text.matchAll(FIGURE)].map(([match, dollar, number, unit]) => {
+    let value = parseFloat(number.replace(/,/g, ''));
+    let suffix = unit?.trim().toLowerCase() || '';
+    if (suffix === 'k') {
+      value *= 1000;
+      suffix = '';
+    } else if (suffix === 'percent' || suffix === 'per cent') {
+      suffix = '%';
+    }
+    return { text: match.trim(), value: `${value}${suffix}`, hasUnit: Boolean(dollar || suffix) };
+  });
+}
+
+// Percentages and amounts are statistics. Plain numbers ("book 12 months ahead", "your top
+// 10 reels") are advice unless the sentence cites a source or states a proportion; years never count
+function claimFigures(sentence: string): Figure[] {
+  const isFinding = ATTRIBUTION.test(sentence) || PROPORTION.test(sentence);
+  return findFigures(sentence)
+    .filter(figure => {
+      if (figure.hasUnit) return true;
+      const value = Number(figure.value);
+      if (Number.isInteger(value) && value >= 1900 && value <= 2099) return false;
+      return isFinding;
+    })
+    .map(({ text, value }) => ({ text, value }));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^• /, ''))
+    .flatMap(line => line.split(/(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[A-Z0-9$])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function toPassages(evidence: Evidence[]): Passage[] {
+  return evidence.flatMap(({ label, text }) =>
+    text.split(/\n+/).filter(line => line.trim()).map(line => ({
+      label,
+      figures: new Set(findFigures(line).map(figure => figure.value)),
+      tokens: new Set(tokenize(line)),
+    }))
+  );
+}
+
+// Share of the claim's words (numbers aside) that appear in the passage
+function overlap(words: string[], passage: Passage): number {
+  if (words.length === 0) return 1;
+  return words.filter(word => passage.tokens.has(word)).length / words.length;
+}
+
+/**
+ * Check every figure and stated finding in an article against the evidence it
+ * was written from. A figure is supported when a passage has the same number
+ * in similar wording; a claim without figures ("studies show couples...") when
+ * one passage says most of the same thing. Headings aren't checked.
+ */
+export function checkClaims(html: string, evidence: Evidence[]): FactCheckReport {
+  const passages = toPassages(evidence);
+  const text = htmlToText(html.replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, ''));
+  let checked = 0;
+  const unsupported: ClaimCheck[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const figures = claimFigures(sentence);
+    if (figures.length === 0 && !ATTRIBUTION.test(sentence) && !PROPORTION.test(sentence)) continue;
+    checked++;
+
+    const words = [...new Set(tokenize(sentence).filter(word => !/^\d/.test(word)))];
+    const sources = new Set<string>();
+    const unsupportedFigures: string[] = [];
+
+    if (figures.length > 0) {
+      for (const figure of figures) {
+        const found = passages.filter(passage =>
+          passage.figures.has(figure.value) && overlap(words, passage) >= MIN_FIGURE_CONTEXT
+        );
+        if (found.length === 0) unsupportedFigures.push(figure.text);
+        found.forEach(passage => sources.add(passage.label));
+      }
+    } else {
+      passages
+        .filter(passage => overlap(words, passage) >= MIN_CLAIM_OVERLAP)
+        .forEach(passage => sources.add(passage.label));
+    }
+
+    const supported = figures.length > 0 ? unsupportedFigures.length === 0 : sources.size > 0;
+    if (!supported) {
+      unsupported.push({
+        claim: sentence,
+        figures: figures.map(figure => figure.text),
+        supported,
+        sources: [...sources],
+        unsupportedFigures,
+      });
+    }
+  }
+
+  return { checked, unsupported, sources: [...new Set(evidence.map(item => item.label))] };
+}
+
+/**
+ * The evidence an article can be checked against after the fact: the source docs
+ * it was written from and the pages it links to (read in full, or from the source
+ * store if already read). Links that can't be read are left out, so claims citing
+ * them come back unsupported.
+ */
+export async function gatherEvidence(html: string, sourceDocIds: string[] = []): Promise<Evidence[]> {
+  const evidence: Evidence[] = [];
+
+  for (const documentId of sourceDocIds) {
+    try {
+      const { content } = await getDocumentSnapshot(documentId);
+      evidence.push({ label: `source document ${documentId}`, text: content });
+    } catch (error) {
+      console.warn(`Could not read source document ${documentId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const links = [...new Set([...html.matchAll(/<a\s[^>]*href=["'](https?:\/\/[^"']+)["']/gi)].map(match => match[1]))]
+    .filter(url => !isBlockedDomain(url))
+    .slice(0, MAX_LINKED_SOURCES);
+
+  const sources = await Promise.all(links.map(url => fetchResearchSource(url).catch(() => null)));
+  for (const source of sources) {
+    if (source) evidence.push({ label: source.url, text: [source.title, ...source.paragraphs].join('\n') });
+  }
+
+  return evidence;
+}
+
+export function formatFactCheckReport(report: FactCheckReport): string {
+  if (report.unsupported.length === 0) {
+    return `Fact check: all ${report.checked} claims are supported by the sources.`;
+  }
+
+  const lines = report.unsupported.map(check => {
+    const reason = check.unsupportedFigures.length > 0
+      ? `${check.unsupportedFigures.join(', ')} not found in any source`
+      : 'no source says this';
+    return `- "${check.claim}" (${reason})`;
+  });
+  const count = report.sources.length;
+  const checkedAgainst = count === 0 ? 'no sources' : count === 1 ? '1 source' : `${count} sources`;
+
+  return [
+    `Fact check: ${report.unsupported.length} of ${report.checked} claims are not supported by the sources (checked against ${checkedAgainst}):`,
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,106 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import type { ModelTask } from './models.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const FIXTURES_DIR = join(__dirname, '../../fixtures');
+
+interface Fixture {
+  task: ModelTask;
+  model: string;
+  requestHash: string;
+  request: unknown;
+  response: Anthropic.Message;
+}
+
+type FixtureMode = 'record' | 'replay';
+
+let mode: FixtureMode | null = null;
+let fixtureDir = '';
+let recorded = 0;
+let replayQueue: Array<Fixture & { used: boolean }> = [];
+
+// Model and sampling settings are left out, so a replay still matches after they change
+function hashRequest(params: object): string {
+  return createHash('sha256').update(JSON.stringify(params)).digest('hex').slice(0, 16);
+}
+
+function startRecording(name: string): void {
+  fixtureDir = join(FIXTURES_DIR, name);
+  if (existsSync(fixtureDir) && readdirSync(fixtureDir).length > 0) {
+    throw new Error(`Fixture set "${name}" already exists; pick a new name or delete ${fixtureDir}`);
+  }
+  mkdirSync(fixtureDir, { recursive: true });
+  mode = 'record';
+  recorded = 0;
+}
+
+function startReplay(name: string): void {
+  fixtureDir = join(FIXTURES_DIR, name);
+  if (!existsSync(fixtureDir)) {
+    throw new Error(`No fixture set named "${name}" in ${FIXTURES_DIR}`);
+  }
+  replayQueue = readdirSync(fixtureDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ ...(JSON.parse(readFileSync(join(fixtureDir, file), 'utf-8')) as Fixture), used: false }));
+  mode = 'replay';
+}
+
+/**
+ * Turn on recording or replay of model responses, from the CLI flags or else
+ * RECORD_FIXTURES / REPLAY_FIXTURES. Each value names a set under fixtures/.
+ */
+export function initFixtures(options: { record?: string; replay?: string } = {}): void {
+  const record = options.record || process.env.RECORD_FIXTURES;
+  const replay = options.replay || process.env.REPLAY_FIXTURES;
+
+  if (record && replay) {
+    throw new Error('Model responses can be recorded or replayed, not both');
+  }
+  if (record) startRecording(record);
+  if (replay) startReplay(replay);
+}
+
+export function isReplaying(): boolean {
+  return mode === 'replay';
+}
+
+/**
+ * Save a request and its response, numbered in call order.
+ */
+export function recordFixture(task: ModelTask, model: string, params: object, response: Anthropic.Message): void {
+  if (mode !== 'record') return;
+
+  recorded++;
+  const fixture: Fixture = { task, model, requestHash: hashRequest(params), request: params, response };
+  const fileName = `${String(recorded).padStart(4, '0')}-${task}.json`;
+  writeFileSync(join(fixtureDir, fileName), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Serve a recorded response. An identical recorded request is used first; otherwise
+ * the next unused response for the same task, so a run can still be replayed after
+ * prompts or tool output change (with a warning, since the output may no longer fit).
+ */
+export function replayFixture(task: ModelTask, params: object): Anthropic.Message {
+  const requestHash = hashRequest(params);
+  const unused = replayQueue.filter(fixture => !fixture.used && fixture.task === task);
+
+  let fixture = unused.find(f => f.requestHash === requestHash);
+  if (!fixture) {
+    fixture = unused[0];
+    if (!fixture) {
+      throw new Error(`No recorded ${task} response left to replay in ${fixtureDir}`);
+    }
+    console.warn(`Replaying a ${task} response recorded for a different request (request changed since recording)`);
+  }
+
+  fixture.used = true;
+  return fixture.response;
+}
@@ -1,8 +1,14 @@
 import GhostAdminAPI from '@tryghost/admin-api';
-import type { Article, ExistingArticle, GhostConfig } from '../types/index.js';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Article, ExistingArticle, GhostArticle, GhostConfig, SourceImage } from '../types/index.js';
 import { generateSlug } from '../utils/metadata.js';
 
-let ghostClient: GhostAdminAPI | null = null;
+// The parts of the admin client this module uses, so a stand-in can replace it
+export type GhostClient = Pick<GhostAdminAPI, 'posts' | 'images'>;
+
+let ghostClient: GhostClient | null = null;
 
 export function initGhostClient(config: GhostConfig): void {
   ghostClient = new GhostAdminAPI({
@@ -12,6 +18,10 @@ export function initGhostClient(config: GhostConfig): void {
   });
 }
 
+export function useGhostClient(client: GhostClient): void {
+  ghostClient = client;
+}
+
 export async function getExistingArticles(): Promise<ExistingArticle[]> {
   if (!ghostClient) throw new Error('Ghost client not initialized');
 
@@ -24,7 +34,7 @@ export async function getExistingArticles(): Promise<ExistingArticle[]> {
       const response = await ghostClient.posts.browse({
         limit: 100,
         page,
-        fields: 'id,title,slug,published_at',
+        fields: 'id,title,slug,published_at,updated_at,status',
         filter: 'status:[draft,published,scheduled]',
       });
 
@@ -34,6 +44,8 @@ export async function getExistingArticles(): Promise<ExistingArticle[]> {
           title: post.title,
           slug: post.slug,
           publishedAt: post.published_at,
+          status: post.status,
+          updatedAt: post.updated_at || undefined,
         });
       }
 
@@ -49,42 +61,59 @@ export async function getExistingArticles(): Promise<ExistingArticle[]> {
   return articles;
 }
 
-export interface DuplicateCheckResult {
-  exactMatch: boolean;
-  similarArticles: ExistingArticle[];
-}
+/**
+ * Posts of any status that were edited at or after `since` (every post without it),
+ * with their HTML and tags, for keeping a local copy up to date.
+ */
+export async function getArticlesUpdatedSince(since?: string): Promise<Array<ExistingArticle & { html: string }>> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+
+  const articles: Array<ExistingArticle & { html: string }> = [];
+
+  for (let page = 1; ; page++) {
+    const response = await ghostClient.posts.browse({
+      limit: 100,
+      page,
+      order: 'updated_at asc',
+      formats: 'html',
+      include: 'tags',
+      ...(since ? { filter: `updated_at:>='${since}'` } : {}),
+    });
+
+    for (const post of response) {
+      articles.push({
+        id: post.id,
+        title: post.title,
+        slug: post.slug,
+        status: post.status,
+        publishedAt: post.published_at,
+        updatedAt: post.updated_at || undefined,
+        excerpt: post.custom_excerpt || undefined,
+        tags: (post.tags || []).map(tag => tag.name),
+        html: post.html || '',
+      });
+    }
+
+    if (!response.meta?.pagination?.next) break;
+  }
 
-export async function checkArticleExists(title: string): Promise<DuplicateCheckResult> {
-  const articles = await getExistingArticles();
-  const slug = generateSlug(title);
-  const lowerTitle = title.toLowerCase();
-
-  // Exact match - same slug or exact title
-  const exactMatch = articles.some(
-    article =>
-      article.slug === slug ||
-      article.title.toLowerCase() === lowerTitle
-  );
-
-  // Similar articles - fuzzy matching for awareness
-  const similarArticles = articles.filter(
-    article =>
-      article.title.toLowerCase().includes(lowerTitle) ||
-      lowerTitle.includes(article.title.toLowerCase())
-  );
-
-  return { exactMatch, similarArticles };
+  return articles;
 }
 
-export async function createDraftArticle(article: Article): Promise<{ id: string; url: string }> {
-  if (!ghostClient) throw new Error('Ghost client not initialized');
+function toPostData(article: Partial<Article>): any {
+  const postData: any = {};
 
-  const postData: any = {
-    title: article.title,
-    slug: article.slug || generateSlug(article.title),
-    html: article.html,
-    status: 'draft',
-  };
+  if (article.title) {
+    postData.title = article.title;
+  }
+
+  if (article.slug) {
+    postData.slug = article.slug;
+  }
+
+  if (article.html) {
+    postData.html = article.html;
+  }
 
   if (article.excerpt) {
     postData.custom_excerpt = article.excerpt;
@@ -102,11 +131,36 @@ export async function createDraftArticle(article: Article): Promise<{ id: string
     postData.feature_image = article.featureImage;
   }
 
+  if (article.featureImageAlt) {
+    postData.feature_image_alt = article.featureImageAlt;
+  }
+
+  if (article.featureImageCaption) {
+    postData.feature_image_caption = article.featureImageCaption;
+  }
+
   // Handle tags
   if (article.tags && article.tags.length > 0) {
     postData.tags = article.tags.map(tag => ({ name: tag }));
   }
 
+  return postData;
+}
+
+export async function createDraftArticle(article: Article): Promise<{ id: string; url: string }> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+  if (!article.title.trim() || !article.html.replace(/<[^>]*>/g, '').trim()) {
+    throw new Error('Refusing to create a draft with an empty title or body');
+  }
+
+  const postData = {
+    ...toPostData(article),
+    title: article.title,
+    slug: article.slug || generateSlug(article.title),
+    html: article.html,
+    status: 'draft',
+  };
+
   const post = await ghostClient.posts.add(postData, { source: 'html' });
 
   return {
@@ -115,15 +169,151 @@ export async function createDraftArticle(article: Article): Promise<{ id: string
   };
 }
 
-export async function searchExistingArticles(query: string): Promise<ExistingArticle[]> {
-  const articles = await getExistingArticles();
-  const lowerQuery = query.toLowerCase();
+export async function getArticle(postId: string): Promise<GhostArticle> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+
+  const post = await ghostClient.posts.read({ id: postId }, { formats: 'html' });
+
+  return {
+    id: post.id,
+    title: post.title,
+    slug: post.slug,
+    html: post.html || '',
+    url: post.url,
+    status: post.status,
+    excerpt: post.custom_excerpt,
+    tags: (post.tags || []).map(tag => tag.name),
+    metaTitle: post.meta_title,
+    metaDescription: post.meta_description,
+    featureImage: post.feature_image,
+    featureImageAlt: post.feature_image_alt,
+    featureImageCaption: post.feature_image_caption,
+    publishedAt: post.published_at,
+    updatedAt: post.updated_at || '',
+  };
+}
+
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Edit a post via posts.edit, building the payload from the current version.
+ * Ghost rejects edits whose updated_at is stale (UpdateCollisionError), so the
+ * latest version is re-read and the edit retried when someone else saved in between.
+ */
+async function editPost(
+  postId: string,
+  allowedStatuses: string[],
+  buildPostData: (current: GhostArticle) => any
+): Promise<{ id: string; url: string }> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await getArticle(postId);
+    if (!allowedStatuses.includes(current.status)) {
+      throw new Error(`Post "${current.title}" is ${current.status}, expected ${allowedStatuses.join(' or ')}`);
+    }
+
+    try {
+      const post = await ghostClient.posts.edit(
+        { ...buildPostData(current), id: postId, updated_at: current.updatedAt },
+        { source: 'html' }
+      );
+
+      return {
+        id: post.id,
+        url: post.url,
+      };
+    } catch (error: any) {
+      if (error.name === 'UpdateCollisionError' && attempt < MAX_UPDATE_ATTEMPTS) {
+        console.warn(`Post "${current.title}" was saved elsewhere, retrying update...`);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Update an existing draft (or scheduled post) in place. Only the provided fields change.
+ */
+export async function updateDraftArticle(
+  postId: string,
+  article: Partial<Article>
+): Promise<{ id: string; url: string }> {
+  const postData = toPostData(article);
+  return editPost(postId, ['draft', 'scheduled'], () => postData);
+}
+
+/**
+ * Schedule a draft for publishing at the given time. Rescheduling an already
+ * scheduled post is allowed. Extra tags are merged with the post's existing tags.
+ */
+export async function scheduleArticle(
+  postId: string,
+  publishAt: Date,
+  extraTags: string[] = []
+): Promise<{ id: string; url: string }> {
+  if (publishAt.getTime() <= Date.now()) {
+    throw new Error('Publish date must be in the future');
+  }
+
+  return editPost(postId, ['draft', 'scheduled'], current => ({
+    status: 'scheduled',
+    published_at: publishAt.toISOString(),
+    tags: [...new Set([...current.tags, ...extraTags])].map(tag => ({ name: tag })),
+  }));
+}
+
+/**
+ * Upload an image to Ghost and return its hosted URL.
+ * The admin client only uploads from disk, so the image is staged in a temp dir.
+ */
+export async function uploadImage(image: SourceImage): Promise<string> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+
+  const dir = mkdtempSync(join(tmpdir(), 'ghost-agent-image-'));
+  const filePath = join(dir, image.fileName);
+
+  try {
+    writeFileSync(filePath, image.data);
+    const result = await ghostClient.images.upload({ file: filePath, ref: image.fileName });
+    return result.url;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
 
-  return articles.filter(
-    article =>
-      article.title.toLowerCase().includes(lowerQuery) ||
-      article.slug.includes(lowerQuery.replace(/\s+/g, '-'))
-  );
+export async function getScheduledArticles(): Promise<ExistingArticle[]> {
+  if (!ghostClient) throw new Error('Ghost client not initialized');
+
+  // Every page, so calendar conflict checks see all of them
+  const articles: ExistingArticle[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await ghostClient.posts.browse({
+      limit: 100,
+      page,
+      order: 'published_at asc',
+      fields: 'id,title,slug,published_at,status',
+      filter: 'status:scheduled',
+      include: 'tags',
+    });
+
+    for (const post of response) {
+      articles.push({
+        id: post.id,
+        title: post.title,
+        slug: post.slug,
+        publishedAt: post.published_at,
+        status: post.status,
+        tags: (post.tags || []).map(tag => tag.name),
+      });
+    }
+
+    if (!response.meta?.pagination?.next) break;
+  }
+
+  return articles;
 }
 
 export async function getRecentArticles(limit: number = 10): Promise<ExistingArticle[]> {
@@ -4,7 +4,8 @@ import { writeFileSync, existsSync, readFileSync } from 'fs';
 import { createServer } from 'http';
 import { parse } from 'url';
 import open from 'open';
-import type { Interview, ArticleIdea } from '../types/index.js';
+import { toBlocks, blocksToText, parseInterviewBlocks, inferVendorDetails, type DocBlock } from '../utils/interview-parser.js';
+import type { Interview, ArticleIdea, SourceImage } from '../types/index.js';
 
 const SCOPES = [
   'https://www.googleapis.com/auth/documents.readonly',
@@ -14,6 +15,25 @@ const SCOPES = [
 let oauth2Client: OAuth2Client | null = null;
 let docsClient: ReturnType<typeof google.docs> | null = null;
 let driveClient: ReturnType<typeof google.drive> | null = null;
+let localDocuments: LocalDocumentSource | null = null;
+
+export interface DocFile {
+  id: string;
+  title: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+/**
+ * Stand-in for Drive and Docs (e.g. the sandbox's local folder). Folder IDs and
+ * document IDs are whatever the source uses to identify its folders and files.
+ */
+export interface LocalDocumentSource {
+  listDocuments(folderId: string): Promise<DocFile[]>;
+  getDocument(documentId: string): Promise<DocFile>;
+  getDocumentBlocks(documentId: string): Promise<DocBlock[]>;
+  getImages(documentId: string): Promise<SourceImage[]>;
+}
 
 export interface GoogleOAuthConfig {
   clientId: string;
@@ -47,6 +67,10 @@ export async function initGoogleClients(config: GoogleOAuthConfig): Promise<void
   driveClient = google.drive({ version: 'v3', auth: oauth2Client });
 }
 
+export function useLocalDocuments(source: LocalDocumentSource): void {
+  localDocuments = source;
+}
+
 async function authorizeWithBrowser(client: OAuth2Client, tokenPath: string): Promise<void> {
   return new Promise((resolve, reject) => {
     const authUrl = client.generateAuthUrl({
@@ -107,12 +131,13 @@ async function authorizeWithBrowser(client: OAuth2Client, tokenPath: string): Pr
   });
 }
 
-export async function listInterviews(folderId: string): Promise<Interview[]> {
+async function listDocFiles(folderId: string): Promise<DocFile[]> {
+  if (localDocuments) return localDocuments.listDocuments(folderId);
   if (!driveClient) throw new Error('Google clients not initialized');
 
   const response = await driveClient.files.list({
     q: `'${folderId}' in parents and mimeType='application/vnd.google-apps.document' and trashed=false`,
-    fields: 'files(id, name, createdTime)',
+    fields: 'files(id, name, createdTime, modifiedTime)',
     orderBy: 'createdTime desc',
   });
 
@@ -121,121 +146,224 @@ export async function listInterviews(folderId: string): Promise<Interview[]> {
   return files.map(file => ({
     id: file.id!,
     title: file.name!,
-    content: '',
     createdAt: file.createdTime ? new Date(file.createdTime) : undefined,
+    modifiedAt: file.modifiedTime ? new Date(file.modifiedTime) : undefined,
   }));
 }
 
-export async function getDocumentContent(documentId: string): Promise<string> {
+async function getDocFile(documentId: string): Promise<DocFile> {
+  if (localDocuments) return localDocuments.getDocument(documentId);
+  if (!driveClient) throw new Error('Google clients not initialized');
+
+  const fileResponse = await driveClient.files.get({
+    fileId: documentId,
+    fields: 'id, name, createdTime, modifiedTime',
+  });
+
+  const file = fileResponse.data;
+  return {
+    id: file.id!,
+    title: file.name!,
+    createdAt: file.createdTime ? new Date(file.createdTime) : undefined,
+    modifiedAt: file.modifiedTime ? new Date(file.modifiedTime) : undefined,
+  };
+}
+
+export async function listInterviews(folderId: string): Promise<Interview[]> {
+  const files = await listDocFiles(folderId);
+  return files.map(file => ({ ...file, content: '' }));
+}
+
+async function getDocumentBlocks(documentId: string): Promise<DocBlock[]> {
+  if (localDocuments) return localDocuments.getDocumentBlocks(documentId);
   if (!docsClient) throw new Error('Google clients not initialized');
 
   const response = await docsClient.documents.get({
     documentId,
   });
 
-  const document = response.data;
-  let content = '';
-
-  if (document.body?.content) {
-    content = extractTextFromContent(document.body.content);
-  }
+  return toBlocks(response.data.body?.content || []);
+}
 
-  return content;
+export async function getDocumentContent(documentId: string): Promise<string> {
+  return blocksToText(await getDocumentBlocks(documentId));
 }
 
-function extractTextFromContent(content: any[]): string {
-  let text = '';
+function collectInlineObjectIds(content: any[]): string[] {
+  const ids: string[] = [];
 
   for (const element of content) {
     if (element.paragraph) {
       for (const paragraphElement of element.paragraph.elements || []) {
-        if (paragraphElement.textRun?.content) {
-          text += paragraphElement.textRun.content;
+        if (paragraphElement.inlineObjectElement?.inlineObjectId) {
+          ids.push(paragraphElement.inlineObjectElement.inlineObjectId);
         }
       }
     } else if (element.table) {
       for (const row of element.table.tableRows || []) {
         for (const cell of row.tableCells || []) {
           if (cell.content) {
-            text += extractTextFromContent(cell.content);
+            ids.push(...collectInlineObjectIds(cell.content));
           }
         }
-        text += '\n';
       }
     }
   }
 
-  return text;
+  return ids;
 }
 
-export async function getInterview(documentId: string): Promise<Interview> {
+export function normalizeFolderName(name: string): string {
+  return name
+    .replace(/\binterview\b/gi, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+async function getEmbeddedImages(documentId: string): Promise<SourceImage[]> {
+  if (!docsClient || !oauth2Client) throw new Error('Google clients not initialized');
+
+  const response = await docsClient.documents.get({ documentId });
+  const document = response.data;
+  const objectIds = collectInlineObjectIds(document.body?.content || []);
+
+  // contentUri links are short-lived and tied to the requesting account
+  const { token } = await oauth2Client.getAccessToken();
+  const images: SourceImage[] = [];
+
+  for (const [index, objectId] of objectIds.entries()) {
+    const embedded = document.inlineObjects?.[objectId]?.inlineObjectProperties?.embeddedObject;
+    const contentUri = embedded?.imageProperties?.contentUri;
+    if (!contentUri) continue;
+
+    const imageResponse = await fetch(contentUri, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!imageResponse.ok) {
+      console.warn(`Could not download embedded image ${objectId}: ${imageResponse.status}`);
+      continue;
+    }
+
+    const mimeType = imageResponse.headers.get('content-type') || 'image/jpeg';
+    images.push({
+      fileName: `${documentId}-${index + 1}.${mimeType.split('/')[1] || 'jpg'}`,
+      mimeType,
+      data: Buffer.from(await imageResponse.arrayBuffer()),
+      alt: embedded?.title || undefined,
+      caption: embedded?.description || undefined,
+    });
+  }
+
+  return images;
+}
+
+/**
+ * Images can also live in a subfolder next to the interview doc, named after it
+ * (e.g. "Nigel - Gloster House" for "Nigel - Gloster House Interview").
+ * A Drive file's description is used as its caption (photographer credit).
+ */
+async function getSubfolderImages(documentId: string): Promise<SourceImage[]> {
   if (!driveClient) throw new Error('Google clients not initialized');
 
   const fileResponse = await driveClient.files.get({
     fileId: documentId,
-    fields: 'id, name, createdTime',
+    fields: 'name, parents',
   });
+  const parentId = fileResponse.data.parents?.[0];
+  const docName = normalizeFolderName(fileResponse.data.name || '');
+  if (!parentId || !docName) return [];
 
-  const file = fileResponse.data;
-  const content = await getDocumentContent(documentId);
+  const foldersResponse = await driveClient.files.list({
+    q: `'${parentId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+    fields: 'files(id, name)',
+  });
+  const folder = (foldersResponse.data.files || []).find(
+    f => normalizeFolderName(f.name || '') === docName
+  );
+  if (!folder) return [];
 
-  const titleParts = file.name?.split(/[-–—]/).map(s => s.trim()) || [];
-  let vendorName: string | undefined;
-  let vendorType: string | undefined;
+  const imagesResponse = await driveClient.files.list({
+    q: `'${folder.id}' in parents and mimeType contains 'image/' and trashed=false`,
+    fields: 'files(id, name, mimeType, description)',
+    orderBy: 'name',
+  });
 
-  if (titleParts.length >= 2) {
-    vendorName = titleParts[1];
-  }
-  if (titleParts.length >= 3) {
-    vendorType = titleParts[2];
+  const images: SourceImage[] = [];
+  for (const file of imagesResponse.data.files || []) {
+    const download = await driveClient.files.get(
+      { fileId: file.id!, alt: 'media' },
+      { responseType: 'arraybuffer' }
+    );
+
+    images.push({
+      fileName: file.name!,
+      mimeType: file.mimeType || 'image/jpeg',
+      data: Buffer.from(download.data as ArrayBuffer),
+      alt: file.name!.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' '),
+      caption: file.description || undefined,
+    });
   }
 
+  return images;
+}
+
+/**
+ * Collect the images for an interview: those embedded in the doc first,
+ * then any from its matching Drive subfolder.
+ */
+export async function getInterviewImages(documentId: string): Promise<SourceImage[]> {
+  if (localDocuments) return localDocuments.getImages(documentId);
+
+  const embedded = await getEmbeddedImages(documentId);
+  const subfolder = await getSubfolderImages(documentId);
+  return [...embedded, ...subfolder];
+}
+
+function buildInterview(file: DocFile, blocks: DocBlock[]): Interview {
+  const parsed = parseInterviewBlocks(blocks);
+  const { vendorName, vendorType, businessName } = inferVendorDetails(parsed, file.title);
+
   return {
-    id: file.id!,
-    title: file.name!,
-    content,
+    id: file.id,
+    title: file.title,
+    content: parsed.content,
+    qa: parsed.qa,
     vendorName,
     vendorType,
-    createdAt: file.createdTime ? new Date(file.createdTime) : undefined,
+    businessName,
+    createdAt: file.createdAt,
+    modifiedAt: file.modifiedAt,
   };
 }
 
-export async function listArticleIdeas(folderId: string): Promise<ArticleIdea[]> {
-  if (!driveClient) throw new Error('Google clients not initialized');
-
-  const response = await driveClient.files.list({
-    q: `'${folderId}' in parents and mimeType='application/vnd.google-apps.document' and trashed=false`,
-    fields: 'files(id, name, createdTime)',
-    orderBy: 'createdTime desc',
-  });
+export async function getInterview(documentId: string): Promise<Interview> {
+  const file = await getDocFile(documentId);
+  const blocks = await getDocumentBlocks(documentId);
 
-  const files = response.data.files || [];
+  return buildInterview(file, blocks);
+}
 
-  return files.map(file => ({
-    id: file.id!,
-    title: file.name!,
-    content: '',
-    createdAt: file.createdTime ? new Date(file.createdTime) : undefined,
-  }));
+export async function listArticleIdeas(folderId: string): Promise<ArticleIdea[]> {
+  const files = await listDocFiles(folderId);
+  return files.map(file => ({ ...file, content: '' }));
 }
 
 export async function getIdea(documentId: string): Promise<ArticleIdea> {
-  if (!driveClient) throw new Error('Google clients not initialized');
+  const file = await getDocFile(documentId);
+  const content = await getDocumentContent(documentId);
 
-  const fileResponse = await driveClient.files.get({
-    fileId: documentId,
-    fields: 'id, name, createdTime',
-  });
+  return { ...file, content };
+}
 
-  const file = fileResponse.data;
+/**
+ * Current text and last-modified time of any source doc (interview or idea).
+ */
+export async function getDocumentSnapshot(documentId: string): Promise<{ content: string; modifiedAt?: Date }> {
+  const { modifiedAt } = await getDocFile(documentId);
   const content = await getDocumentContent(documentId);
 
-  return {
-    id: file.id!,
-    title: file.name!,
-    content,
-    createdAt: file.createdTime ? new Date(file.createdTime) : undefined,
-  };
+  return { content, modifiedAt };
 }
 
 export async function getAllInterviewsWithContent(folderId: string): Promise<Interview[]> {
@@ -243,8 +371,8 @@ export async function getAllInterviewsWithContent(folderId: string): Promise<Int
 
   const interviewsWithContent = await Promise.all(
     interviews.map(async (interview) => {
-      const content = await getDocumentContent(interview.id);
-      return { ...interview, content };
+      const blocks = await getDocumentBlocks(interview.id);
+      return buildInterview(interview, blocks);
     })
   );
 
@@ -0,0 +1,54 @@
+import { getInterviewImages } from './google-docs.js';
+import { uploadImage } from './ghost.js';
+import { countImagePlaceholders, replaceImagePlaceholders, type UploadedImage } from '../utils/images.js';
+import type { Article } from '../types/index.js';
+
+/**
+ * Upload an interview's images to Ghost and attach them to the article:
+ * the first becomes the feature image, the rest fill the HTML placeholders.
+ */
+export async function attachInterviewImages(
+  article: Article,
+  documentId: string,
+  options: { verbose?: boolean } = {}
+): Promise<Article> {
+  let images;
+  try {
+    images = await getInterviewImages(documentId);
+  } catch (error) {
+    // Images are a nice-to-have; never block the draft on them
+    console.warn('Could not load interview images:', error instanceof Error ? error.message : error);
+    return article;
+  }
+
+  if (images.length === 0) {
+    if (options.verbose) console.log('No interview images found, keeping placeholders.');
+    return article;
+  }
+
+  // Only upload as many as will actually be used
+  const needed = 1 + countImagePlaceholders(article.html);
+  const uploaded: UploadedImage[] = [];
+
+  for (const image of images.slice(0, needed)) {
+    if (options.verbose) console.log(`Uploading image ${image.fileName}...`);
+    try {
+      const url = await uploadImage(image);
+      uploaded.push({ url, alt: image.alt, caption: image.caption });
+    } catch (error) {
+      console.warn(`Failed to upload ${image.fileName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (uploaded.length === 0) return article;
+
+  const [feature, ...inline] = uploaded;
+
+  return {
+    ...article,
+    featureImage: feature.url,
+    featureImageAlt: feature.alt,
+    featureImageCaption: feature.caption,
+    html: replaceImagePlaceholders(article.html, inline),
+  };
+}
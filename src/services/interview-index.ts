@@ -0,0 +1,199 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getInterview, listInterviews } from './google-docs.js';
+import { getStateDirectory } from './state-store.js';
+import { tokenize } from '../utils/tokenize.js';
+import type { Interview } from '../types/index.js';
+
+// BM25 term-frequency saturation and length normalization (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+// Interview docs fetched at once when refreshing the index
+const FETCH_BATCH_SIZE = 5;
+
+// One searchable unit: a question with its answer, or a paragraph of an unstructured doc
+interface IndexedPassage {
+  text: string;
+  question?: string;
+  speaker?: string;
+  tokens: string[];
+}
+
+interface IndexedInterview {
+  id: string;
+  title: string;
+  vendorName: string;
+  // Drive's modifiedTime when indexed; the doc is re-read when it changes
+  modifiedAt: string;
+  passages: IndexedPassage[];
+}
+
+interface InterviewIndexFile {
+  folderId: string;
+  interviews: Record<string, IndexedInterview>;
+}
+
+export interface SearchSnippet {
+  text: string;
+  question?: string;
+  speaker?: string;
+  score: number;
+}
+
+export interface InterviewSearchResult {
+  documentId: string;
+  vendorName: string;
+  title: string;
+  // Score of the vendor's best snippet
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+// Kept next to the content state, so the sandbox interviews get their own index
+function getIndexPath(): string {
+  return join(getStateDirectory(), 'interview-index.json');
+}
+
+function toPassages(interview: Interview): IndexedPassage[] {
+  if (interview.qa && interview.qa.length > 0) {
+    return interview.qa.map(pair => ({
+      text: pair.answer,
+      question: pair.question,
+      speaker: pair.speaker || interview.vendorName,
+      tokens: tokenize(`${pair.question}\n${pair.answer}`),
+    }));
+  }
+
+  return interview.content
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(text => ({ text, tokens: tokenize(text) }));
+}
+
+/**
+ * Bring the local index up to date with the interviews folder. Only docs that
+ * are new or were modified since they were indexed are downloaded; docs that
+ * left the folder are dropped.
+ */
+export async function refreshInterviewIndex(
+  folderId: string,
+  options: { rebuild?: boolean } = {}
+): Promise<{ interviews: IndexedInterview[]; updated: number; removed: number }> {
+  const path = getIndexPath();
+  const saved: InterviewIndexFile | null = existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : null;
+  const cached = saved && saved.folderId === folderId && !options.rebuild ? saved.interviews : {};
+
+  const files = await listInterviews(folderId);
+  const stale = files.filter(file => {
+    const modifiedAt = file.modifiedAt?.toISOString();
+    return !modifiedAt || cached[file.id]?.modifiedAt !== modifiedAt;
+  });
+
+  // A few docs at a time, to stay inside Google's per-user rate limits on large folders
+  const fetched: Interview[] = [];
+  for (let i = 0; i < stale.length; i += FETCH_BATCH_SIZE) {
+    const batch = stale.slice(i, i + FETCH_BATCH_SIZE);
+    fetched.push(...await Promise.all(batch.map(file => getInterview(file.id))));
+  }
+
+  const interviews: Record<string, IndexedInterview> = {};
+  for (const file of files) {
+    const interview = fetched.find(i => i.id === file.id);
+    interviews[file.id] = interview
+      ? {
+          id: interview.id,
+          title: interview.title,
+          vendorName: interview.vendorName || interview.title,
+          modifiedAt: file.modifiedAt?.toISOString() || '',
+          passages: toPassages(interview),
+        }
+      : cached[file.id];
+  }
+
+  writeFileSync(path, JSON.stringify({ folderId, interviews } satisfies InterviewIndexFile));
+
+  return {
+    interviews: Object.values(interviews),
+    updated: stale.length,
+    removed: Object.keys(cached).filter(id => !interviews[id]).length,
+  };
+}
+
+/**
+ * Split a query into quoted phrases, which a snippet must contain word for
+ * word, and loose words, which only rank.
+ */
+function parseQuery(query: string): { terms: string[]; phrases: string[][] } {
+  const phrases = [...query.matchAll(/"([^"]+)"/g)]
+    .map(match => tokenize(match[1]))
+    .filter(tokens => tokens.length > 0);
+  const loose = tokenize(query.replace(/"[^"]*"/g, ' '));
+
+  return { terms: [...new Set([...loose, ...phrases.flat()])], phrases };
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((token, j) => tokens[i + j] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Ranked search over every interview: snippets are scored with BM25 and
+ * grouped by vendor, best vendor first. Words are stemmed, so "pricing" also
+ * finds "prices"; "quoted phrases" must appear as written.
+ */
+export async function searchInterviews(
+  folderId: string,
+  query: string,
+  options: { limit?: number; snippetsPerVendor?: number } = {}
+): Promise<InterviewSearchResult[]> {
+  const { limit = 10, snippetsPerVendor = 3 } = options;
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0) throw new Error(`"${query}" has no searchable words`);
+
+  const { interviews } = await refreshInterviewIndex(folderId);
+  const passages = interviews.flatMap(interview => interview.passages.map(passage => ({ interview, passage })));
+  if (passages.length === 0) return [];
+
+  const averageLength = passages.reduce((sum, { passage }) => sum + passage.tokens.length, 0) / passages.length;
+  const idf = new Map(terms.map(term => {
+    const df = passages.filter(({ passage }) => passage.tokens.includes(term)).length;
+    return [term, Math.log(1 + (passages.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  const results = new Map<string, InterviewSearchResult>();
+
+  for (const { interview, passage } of passages) {
+    if (!phrases.every(phrase => containsPhrase(passage.tokens, phrase))) continue;
+
+    let score = 0;
+    for (const term of terms) {
+      const tf = passage.tokens.filter(token => token === term).length;
+      if (tf === 0) continue;
+      score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * passage.tokens.length / averageLength));
+    }
+    if (score === 0) continue;
+
+    const result = results.get(interview.id) || {
+      documentId: interview.id,
+      vendorName: interview.vendorName,
+      title: interview.title,
+      score: 0,
+      snippets: [],
+    };
+    result.snippets.push({ text: passage.text, question: passage.question, speaker: passage.speaker, score });
+    result.score = Math.max(result.score, score);
+    results.set(interview.id, result);
+  }
+
+  return [...results.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => ({
+      ...result,
+      snippets: result.snippets.sort((a, b) => b.score - a.score).slice(0, snippetsPerVendor),
+    }));
+}
@@ -0,0 +1,136 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { assertWithinBudget, recordUsage } from './usage.js';
+import { isReplaying, recordFixture, replayFixture } from './fixtures.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export type ModelTask = 'article' | 'themes' | 'insights' | 'chat' | 'agent';
+
+export const MODEL_TASKS: ModelTask[] = ['article', 'themes', 'insights', 'chat', 'agent'];
+
+export interface ModelSettings {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  // Tried in order when the model is overloaded or unavailable
+  fallbacks: string[];
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+interface ModelsConfig {
+  fallbacks?: string[];
+  tasks?: Partial<Record<ModelTask, Partial<ModelSettings>>>;
+  pricing?: Record<string, ModelPricing>;
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+const DEFAULT_SETTINGS: Record<ModelTask, Omit<ModelSettings, 'fallbacks'>> = {
+  article: { model: DEFAULT_MODEL, maxTokens: 8192, temperature: 0.7 },
+  themes: { model: DEFAULT_MODEL, maxTokens: 1024, temperature: 0.5 },
+  insights: { model: DEFAULT_MODEL, maxTokens: 1024, temperature: 0.5 },
+  chat: { model: DEFAULT_MODEL, maxTokens: 4096, temperature: 0.7 },
+  agent: { model: DEFAULT_MODEL, maxTokens: 8192 },
+};
+
+let modelsConfig: ModelsConfig | null = null;
+let modelOverride: string | null = null;
+
+function loadModelsConfig(): ModelsConfig {
+  if (modelsConfig) return modelsConfig;
+
+  try {
+    const configPath = join(__dirname, '../../config/models.json');
+    modelsConfig = JSON.parse(readFileSync(configPath, 'utf-8')) as ModelsConfig;
+  } catch {
+    console.warn('Warning: Could not load models.json, using default model settings');
+    modelsConfig = {};
+  }
+  return modelsConfig;
+}
+
+/**
+ * Use one model for every task (e.g. from the --model flag). The configured
+ * models stay in the fallback chain behind it.
+ */
+export function setModelOverride(model: string | undefined): void {
+  modelOverride = model?.trim() || null;
+}
+
+export function getModelSettings(task: ModelTask): ModelSettings {
+  const config = loadModelsConfig();
+  const configured = { ...DEFAULT_SETTINGS[task], ...config.tasks?.[task] };
+  const override = modelOverride || process.env.ANTHROPIC_MODEL;
+
+  const chain = [override, configured.model, ...(configured.fallbacks || config.fallbacks || [])]
+    .filter((model): model is string => Boolean(model));
+  const [model, ...fallbacks] = [...new Set(chain)];
+
+  return {
+    model,
+    maxTokens: configured.maxTokens,
+    temperature: configured.temperature,
+    fallbacks,
+  };
+}
+
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return loadModelsConfig().pricing?.[model];
+}
+
+// Overloaded (529), server errors, rate limits and unknown/retired models are worth
+// another model; bad requests and auth errors would fail the same way on any model.
+function shouldFallBack(error: unknown): boolean {
+  if (!(error instanceof Anthropic.APIError) || error.status === undefined) return false;
+  return error.status >= 500 || error.status === 429 || error.status === 404;
+}
+
+/**
+ * messages.create with the task's model settings, moving down the fallback chain
+ * when a model is overloaded or unavailable. The SDK's own retries run first.
+ * Every response's token usage is recorded, and no request is sent once the
+ * current run's budget is spent. When replaying, recorded responses are served instead.
+ */
+export async function createMessage(
+  client: Anthropic,
+  task: ModelTask,
+  params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'model' | 'max_tokens' | 'temperature'>
+): Promise<Anthropic.Message> {
+  if (isReplaying()) {
+    return replayFixture(task, params);
+  }
+
+  assertWithinBudget();
+
+  const settings = getModelSettings(task);
+  const models = [settings.model, ...settings.fallbacks];
+
+  for (let i = 0; i < models.length; i++) {
+    try {
+      const response = await client.messages.create({
+        ...params,
+        model: models[i],
+        max_tokens: settings.maxTokens,
+        ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      });
+      recordUsage(task, models[i], response.usage, getModelPricing(models[i]));
+      recordFixture(task, models[i], params, response);
+      return response;
+    } catch (error) {
+      const next = models[i + 1];
+      if (!next || !shouldFallBack(error)) throw error;
+      console.warn(`${models[i]} unavailable for ${task} (${(error as Error).message}); falling back to ${next}`);
+    }
+  }
+
+  throw new Error(`No model configured for ${task}`);
+}
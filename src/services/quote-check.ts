@@ -0,0 +1,402 @@
+import { htmlToText } from '../utils/sections.js';
+import type { Interview } from '../types/index.js';
+
+// Share of a quote's words that must line up with the interview for it to count as a (bad) rendering of it
+const MIN_PARAPHRASE_SIMILARITY = 0.6;
+// Shorter quoted strings are phrases ("the 'wow' moment"), not quotes
+const MIN_QUOTE_WORDS = 6;
+// How far either side of a quote to look for who it's attributed to
+const ATTRIBUTION_WINDOW = 150;
+
+/**
+ * What to do when an article misquotes an interview (QUOTE_CHECK): `report`
+ * (the default) creates the draft and lists the problems, `block` refuses to
+ * create it, `off` skips the check.
+ */
+export type QuoteCheckMode = 'block' | 'report' | 'off';
+
+export function getQuoteCheckMode(): QuoteCheckMode {
+  const mode = process.env.QUOTE_CHECK;
+  return mode === 'block' || mode === 'off' ? mode : 'report';
+}
+
+export type QuoteStatus = 'verbatim' | 'paraphrased' | 'not_found' | 'misattributed';
+
+export interface QuoteCheck {
+  // As it appears in the article
+  quote: string;
+  status: QuoteStatus;
+  // Who the article says said it, when it names someone
+  attributedTo?: string;
+  // Who said it in the interview ("the interviewer" for a question)
+  speaker?: string;
+  interviewId?: string;
+  // The closest passage of the interview, word for word, to the end of its clause
+  sourceText?: string;
+  // sourceText lines up with the whole quote, so it can replace it as is. When the
+  // quote's first or last words match nothing, sourceText runs to the clause boundary
+  // and is only a suggestion
+  fixable?: boolean;
+  // Share of the quote's words found in order in the interview, 0-1
+  similarity: number;
+}
+
+export interface QuoteCheckReport {
+  // Quotes checked: those that come from, or are attributed to, someone interviewed
+  checked: number;
+  problems: QuoteCheck[];
+}
+
+interface Segment {
+  interviewId: string;
+  speaker: string;
+  isQuestion: boolean;
+  text: string;
+  words: Word[];
+}
+
+interface Word {
+  norm: string;
+  start: number;
+  end: number;
+}
+
+interface Person {
+  interviewId: string;
+  name: string;
+  // Set for a named speaker; a business name stands for everyone in its interview
+  speaker?: string;
+}
+
+interface QuotedPassage {
+  quote: string;
+  isBlockquote: boolean;
+  // Text around the quote, where the attribution is
+  before: string;
+  after: string;
+}
+
+const INTERVIEWER = 'the interviewer';
+
+function toWords(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu)].map(match => ({
+    norm: match[0].toLowerCase().replace(/’/g, "'"),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// A Q&A speaker label ("Jane", "jane doe") that names the vendor becomes the vendor's full name
+function canonicalSpeaker(label: string | undefined, interview: Interview): string {
+  const vendor = interview.vendorName || interview.title;
+  if (!label) return vendor;
+
+  const labelWords = label.toLowerCase().split(/\s+/).filter(Boolean);
+  const vendorWords = vendor.toLowerCase().split(/\s+/);
+  return labelWords.length > 0 && labelWords.every(word => vendorWords.includes(word)) ? vendor : label;
+}
+
+function toSegments(interview: Interview): Segment[] {
+  const vendor = interview.vendorName || interview.title;
+  const segment = (speaker: string, isQuestion: boolean, text: string): Segment => ({
+    interviewId: interview.id,
+    speaker,
+    isQuestion,
+    text,
+    words: toWords(text),
+  });
+
+  if (!interview.qa || interview.qa.length === 0) {
+    return [segment(vendor, false, interview.content)];
+  }
+
+  return interview.qa.flatMap(qa => [
+    segment(INTERVIEWER, true, qa.question),
+    segment(canonicalSpeaker(qa.speaker, interview), false, qa.answer),
+  ]);
+}
+
+// Names an article might attribute a quote with: full names, first names and business names
+function toPeople(interviews: Interview[]): Array<Person & { alias: string }> {
+  const people: Array<Person & { alias: string }> = [];
+
+  for (const interview of interviews) {
+    const speakers = new Set([interview.vendorName, ...(interview.qa || []).map(qa => qa.speaker && canonicalSpeaker(qa.speaker, interview))]);
+    for (const speaker of speakers) {
+      if (!speaker) continue;
+      const first = speaker.split(/\s+/)[0];
+      for (const alias of new Set([speaker, first])) {
+        if (alias.length >= 3) people.push({ interviewId: interview.id, name: speaker, speaker, alias });
+      }
+    }
+    if (interview.businessName) {
+      people.push({ interviewId: interview.id, name: interview.businessName, alias: interview.businessName });
+    }
+  }
+
+  // Longest first, so "Jane Doe" wins over "Jane"
+  return people.sort((a, b) => b.alias.length - a.alias.length);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The person named closest to the quote, if any
+function findAttribution(passage: QuotedPassage, people: ReturnType<typeof toPeople>): Person | undefined {
+  let best: { person: Person; distance: number } | undefined;
+
+  for (const person of people) {
+    const pattern = new RegExp(`\\b${escapeRegExp(person.alias)}\\b`, 'g');
+    for (const match of passage.before.matchAll(pattern)) {
+      const distance = passage.before.length - match.index!;
+      if (!best || distance < best.distance) best = { person, distance };
+    }
+    const after = passage.after.search(pattern);
+    if (after >= 0 && (!best || after < best.distance)) best = { person, distance: after };
+  }
+
+  return best?.person;
+}
+
+function extractQuotes(html: string): QuotedPassage[] {
+  const passages: QuotedPassage[] = [];
+  const clean = (text: string) => text.trim().replace(/^["“]+|["”]+$/g, '').replace(/[,;:]$/, '').trim();
+
+  // Blockquotes, with a <cite> or trailing "- Name" line as their attribution
+  const withoutBlockquotes = html.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (block, inner: string, offset: number) => {
+    const cite = inner.match(/<(cite|footer)[^>]*>([\s\S]*?)<\/\1>/i);
+    let text = htmlToText(inner.replace(/<(cite|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')).replace(/\n/g, ' ');
+    let attribution = cite ? htmlToText(cite[2]) : '';
+
+    const dash = text.match(/\s[—–-]+\s*([^"”—–]+)$/);
+    if (!attribution && dash && dash[1].split(/\s+/).length <= 8) {
+      attribution = dash[1];
+      text = text.slice(0, dash.index);
+    }
+
+    passages.push({
+      quote: clean(text),
+      isBlockquote: true,
+      before: htmlToText(html.slice(Math.max(0, offset - 1000), offset)).slice(-ATTRIBUTION_WINDOW),
+      after: attribution || htmlToText(html.slice(offset + block.length, offset + block.length + 1000)).slice(0, ATTRIBUTION_WINDOW),
+    });
+    return '\n';
+  });
+
+  // Quotation marks in running text
+  for (const line of htmlToText(withoutBlockquotes).split('\n')) {
+    const quotes = [...line.matchAll(/"([^"]+)"|“([^”]+)”/g)];
+    quotes.forEach((match, i) => {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Attribution stops at the neighbouring quotes
+      const previousEnd = i > 0 ? quotes[i - 1].index! + quotes[i - 1][0].length : 0;
+      const nextStart = i < quotes.length - 1 ? quotes[i + 1].index! : line.length;
+      passages.push({
+        quote: clean(match[1] || match[2]),
+        isBlockquote: false,
+        before: line.slice(Math.max(previousEnd, start - ATTRIBUTION_WINDOW), start),
+        after: line.slice(end, Math.min(nextStart, end + ATTRIBUTION_WINDOW)),
+      });
+    });
+  }
+
+  return passages.filter(passage => toWords(passage.quote).length >= MIN_QUOTE_WORDS);
+}
+
+/**
+ * Local alignment (Smith-Waterman over words) of the quote against a segment:
+ * the stretch of the segment that best matches the quote, allowing for words
+ * added, dropped or changed, and how many of the quote's words it matched.
+ * Words at either end of the quote that match nothing fall outside the stretch;
+ * quoteStart and quoteEnd say which of the quote's words it covers.
+ */
+function align(quote: string[], segment: Segment): { matched: number; start: number; end: number; quoteStart: number; quoteEnd: number } {
+  const source = segment.words.map(word => word.norm);
+  const rows = quote.length + 1;
+  const cols = source.length + 1;
+  const score = new Int32Array(rows * cols);
+  let best = { value: 0, i: 0, j: 0 };
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const diagonal = score[(i - 1) * cols + j - 1] + (quote[i - 1] === source[j - 1] ? 2 : -1);
+      const value = Math.max(0, diagonal, score[(i - 1) * cols + j] - 1, score[i * cols + j - 1] - 1);
+      score[i * cols + j] = value;
+      if (value > best.value) best = { value, i, j };
+    }
+  }
+
+  // Walk back to where the alignment starts, counting matched words
+  let { i, j } = best;
+  let matched = 0;
+  while (i > 0 && j > 0 && score[i * cols + j] > 0) {
+    const value = score[i * cols + j];
+    if (quote[i - 1] === source[j - 1] && value === score[(i - 1) * cols + j - 1] + 2) {
+      matched++;
+      i--;
+      j--;
+    } else if (value === score[(i - 1) * cols + j - 1] - 1) {
+      i--;
+      j--;
+    } else if (value === score[(i - 1) * cols + j] - 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return { matched, start: j, end: best.j, quoteStart: i, quoteEnd: best.i };
+}
+
+// Where a clause ends: sentence punctuation, commas, semicolons, colons and dashes
+const CLAUSE_BOUNDARY = /[.!?;:,—–]|\s-\s/g;
+
+/**
+ * The segment's text for an aligned stretch. Where the quote runs past an end of
+ * the alignment, the text is widened to the clause boundary on that side, so it
+ * is never cut off mid-clause.
+ */
+function sourceSpan(segment: Segment, alignment: ReturnType<typeof align>, quoteLength: number): string {
+  let start = segment.words[alignment.start].start;
+  let end = segment.words[alignment.end - 1].end;
+  const boundaries = [...segment.text.matchAll(CLAUSE_BOUNDARY)].map(match => match.index!);
+
+  if (alignment.quoteStart > 0) {
+    start = Math.max(0, ...boundaries.filter(index => index < start).map(index => index + 1));
+  }
+  if (alignment.quoteEnd < quoteLength) {
+    end = boundaries.find(index => index >= end) ?? segment.text.length;
+  }
+
+  return segment.text.slice(start, end).trim();
+}
+
+// Each run of words between ellipses and [editorial insertions] must appear as it is
+function isVerbatim(quote: string, segment: Segment): boolean {
+  const source = ` ${segment.words.map(word => word.norm).join(' ')} `;
+  return quote
+    .split(/\.\.\.|…|\[[^\]]*\]/)
+    .map(fragment => toWords(fragment).map(word => word.norm).join(' '))
+    .filter(Boolean)
+    .every(fragment => source.includes(` ${fragment} `));
+}
+
+/**
+ * Check every quotation in an article against the interviews it was written
+ * from. A quote must appear word for word (case and punctuation aside, with
+ * "..." and [brackets] allowed) in what its speaker said. Close but reworded
+ * quotes come back as paraphrased, with the exact interview text; quotes
+ * credited to someone other than who said them (or to the vendor when the
+ * interviewer said them) as misattributed. Quotes that don't come from the
+ * interviews and aren't credited to anyone interviewed aren't checked.
+ */
+export function checkQuotes(html: string, interviews: Interview[]): QuoteCheckReport {
+  const segments = interviews.flatMap(toSegments);
+  const people = toPeople(interviews);
+  const problems: QuoteCheck[] = [];
+  let checked = 0;
+
+  for (const passage of extractQuotes(html)) {
+    const quoteWords = toWords(passage.quote.replace(/\[[^\]]*\]/g, ' ')).map(word => word.norm);
+
+    // An unattributed blockquote in a single-interview article is the vendor's
+    const attribution = findAttribution(passage, people) || (passage.isBlockquote && interviews.length === 1
+      ? people.find(person => person.interviewId === interviews[0].id && person.speaker)
+      : undefined);
+
+    const exact = segments.find(segment => isVerbatim(passage.quote, segment));
+    const closest = exact ? null : segments
+      .map(segment => ({ segment, ...align(quoteWords, segment) }))
+      .sort((a, b) => b.matched - a.matched)[0];
+    const similarity = exact ? 1 : closest ? closest.matched / quoteWords.length : 0;
+    const segment = exact || (closest && similarity >= MIN_PARAPHRASE_SIMILARITY ? closest.segment : undefined);
+
+    // Not from the interviews and not credited to anyone in them: some other source's quote
+    if (!segment && !attribution) continue;
+    checked++;
+
+    const check: QuoteCheck = {
+      quote: passage.quote,
+      status: 'verbatim',
+      attributedTo: attribution?.name,
+      speaker: segment?.speaker,
+      interviewId: segment?.interviewId,
+      similarity: Math.round(similarity * 100) / 100,
+    };
+
+    if (!segment) {
+      check.status = 'not_found';
+    } else if (
+      attribution && (
+        segment.isQuestion ||
+        attribution.interviewId !== segment.interviewId ||
+        (attribution.speaker && attribution.speaker.toLowerCase() !== segment.speaker.toLowerCase())
+      )
+    ) {
+      check.status = 'misattributed';
+    } else if (!exact && closest) {
+      check.status = 'paraphrased';
+      check.sourceText = sourceSpan(segment, closest, quoteWords.length);
+      check.fixable = closest.quoteStart === 0 && closest.quoteEnd === quoteWords.length;
+    }
+
+    if (check.status !== 'verbatim') problems.push(check);
+  }
+
+  return { checked, problems };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Swap each paraphrased quote in the HTML for the exact interview text, where
+ * the interview text lines up with the whole quote. The rest, and misattributed
+ * and unfound quotes, are left for an editor.
+ */
+export function applyQuoteFixes(html: string, report: QuoteCheckReport): { html: string; replaced: number } {
+  let replaced = 0;
+
+  for (const problem of report.problems) {
+    if (problem.status !== 'paraphrased' || !problem.sourceText || !problem.fixable) continue;
+
+    // The quote's words with any markup, entities or punctuation in between
+    const words = toWords(problem.quote).map(word => escapeRegExp(word.norm).replace(/'/g, "(?:'|’|&#39;|&rsquo;)"));
+    const pattern = new RegExp(words.join(`(?:[^\\p{L}\\p{N}<&]|&[a-z0-9#]+;|<[^>]+>)+`), 'iu');
+
+    if (pattern.test(html)) {
+      html = html.replace(pattern, escapeHtml(problem.sourceText));
+      replaced++;
+    }
+  }
+
+  return { html, replaced };
+}
+
+export function formatQuoteReport(report: QuoteCheckReport): string {
+  if (report.problems.length === 0) {
+    return `Quote check: all ${report.checked} interview quotes match the source word for word.`;
+  }
+
+  const lines = report.problems.map(problem => {
+    const quote = `"${problem.quote}"`;
+    switch (problem.status) {
+      case 'paraphrased':
+        return problem.fixable
+          ? `- ${quote} is reworded. ${problem.speaker} said: "${problem.sourceText}"`
+          : `- ${quote} is reworded. The closest thing ${problem.speaker} said: "${problem.sourceText}" (check the wording by hand)`;
+      case 'misattributed':
+        return `- ${quote} is credited to ${problem.attributedTo}, but was said by ${problem.speaker}`;
+      default:
+        return `- ${quote} is credited to ${problem.attributedTo}, but isn't in the interview`;
+    }
+  });
+
+  return [
+    `Quote check: ${report.problems.length} of ${report.checked} interview quotes don't match the source:`,
+    ...lines,
+  ].join('\n');
+}
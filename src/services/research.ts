@@ -1,58 +1,136 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
 import { filterBlockedUrls, getBlockedDomains } from '../utils/blocklist.js';
+import { getStateDirectory } from './state-store.js';
+import { createTavilyProvider, type SearchProvider } from './search-providers.js';
+import { fetchResearchSource, selectPassages, type ResearchSource } from './source-store.js';
 import type { ResearchResult } from '../types/index.js';
 
-const TAVILY_API_URL = 'https://api.tavily.com/search';
+// Cached results are reused for this long (SEARCH_CACHE_TTL_HOURS, 0 turns the cache off)
+const DEFAULT_CACHE_TTL_HOURS = 168;
 
-let tavilyApiKey: string | null = null;
+// Search results read in full for research context; the rest are listed with their snippet
+const FULL_PAGE_SOURCES = 3;
+const PASSAGES_PER_SOURCE = 3;
+
+let searchProvider: SearchProvider | null = null;
+
+interface CachedSearch {
+  provider: string;
+  query: string;
+  maxResults: number;
+  fetchedAt: string;
+  results: ResearchResult[];
+}
 
 export function initResearchService(apiKey?: string): void {
-  tavilyApiKey = apiKey || null;
+  searchProvider = apiKey ? createTavilyProvider(apiKey) : null;
+}
+
+/**
+ * Send every search to the given provider instead of Tavily (the sandbox uses its fixtures).
+ */
+export function useSearchProvider(provider: SearchProvider): void {
+  searchProvider = provider;
+}
+
+function getCacheTtlMs(): number {
+  const hours = Number(process.env.SEARCH_CACHE_TTL_HOURS ?? DEFAULT_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+// Kept next to the content state; one file per provider, query and result count
+function getCachePath(provider: string, query: string, maxResults: number): string {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const key = createHash('sha256').update(JSON.stringify([provider, normalized, maxResults])).digest('hex').slice(0, 16);
+  return join(getStateDirectory(), 'search-cache', `${key}.json`);
+}
+
+function readCache(path: string): ResearchResult[] | null {
+  if (!existsSync(path)) return null;
+
+  const cached = JSON.parse(readFileSync(path, 'utf-8')) as CachedSearch;
+  return Date.now() - Date.parse(cached.fetchedAt) < getCacheTtlMs() ? cached.results : null;
+}
+
+function writeCache(path: string, entry: CachedSearch): void {
+  const dir = join(getStateDirectory(), 'search-cache');
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(path, JSON.stringify(entry, null, 2));
 }
 
+/**
+ * Search the web with the configured provider. Results are cached on disk for
+ * SEARCH_CACHE_TTL_HOURS, and blocked domains are removed from every result
+ * set, cached or not. Throws when no provider is configured or the search fails.
+ */
 export async function searchWeb(query: string, maxResults: number = 10): Promise<ResearchResult[]> {
-  if (!tavilyApiKey) {
-    console.warn('Tavily API key not configured. Skipping web research.');
-    return [];
+  if (!searchProvider) {
+    throw new Error('Web search is not configured (set TAVILY_API_KEY)');
   }
 
-  try {
-    const blockedDomains = getBlockedDomains();
-
-    const response = await fetch(TAVILY_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        api_key: tavilyApiKey,
-        query: `${query} wedding industry`,
-        search_depth: 'advanced',
-        max_results: maxResults * 2, // Request more since we'll filter some out
-        exclude_domains: blockedDomains,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Tavily API error: ${response.status}`);
+  // Ask for extra results, since blocked ones are dropped afterwards
+  const requested = maxResults * 2;
+  const useCache = searchProvider.cacheable && getCacheTtlMs() > 0;
+  const cachePath = getCachePath(searchProvider.name, query, requested);
+
+  let results = useCache ? readCache(cachePath) : null;
+  if (!results) {
+    results = await searchProvider.search(query, { maxResults: requested, excludeDomains: getBlockedDomains() });
+    if (useCache) {
+      writeCache(cachePath, {
+        provider: searchProvider.name,
+        query,
+        maxResults: requested,
+        fetchedAt: new Date().toISOString(),
+        results,
+      });
     }
+  }
 
-    const data = await response.json();
+  return filterBlockedUrls(results).slice(0, maxResults);
+}
 
-    const results: ResearchResult[] = (data.results || []).map((result: any) => ({
-      title: result.title,
-      url: result.url,
-      snippet: result.content || result.snippet,
-      source: new URL(result.url).hostname,
-    }));
+function formatSource(number: number, result: ResearchResult, source: ResearchSource | null, query: string): string {
+  if (!source) {
+    return `[Source ${number}: ${result.source}] (${result.url})\n${result.title}\nSearch summary only (the page could not be read): ${result.snippet}`;
+  }
 
-    // Double-check filtering (in case Tavily didn't exclude all)
-    const filtered = filterBlockedUrls(results);
+  const byline = [
+    source.author && `By ${source.author}`,
+    source.publishedAt && `Published ${source.publishedAt.slice(0, 10)}`,
+  ].filter(Boolean).join(', ');
+  const passages = selectPassages(source, query, PASSAGES_PER_SOURCE).map(passage => `"${passage}"`);
+
+  return [
+    `[Source ${number}: ${source.site}] (${source.url})`,
+    source.title,
+    ...(byline ? [byline] : []),
+    'Passages (verbatim from the page):',
+    ...passages,
+  ].join('\n');
+}
 
-    return filtered.slice(0, maxResults);
-  } catch (error) {
-    console.error('Research search failed:', error);
-    return [];
-  }
+/**
+ * Research context for a prompt: the top results are read in full and quoted
+ * through their most relevant passages, with author and date for citing.
+ * Results whose page can't be read fall back to their search snippet.
+ */
+async function buildResearchContext(results: ResearchResult[], query: string): Promise<string> {
+  const sources = await Promise.all(results.map(async (result, i) => {
+    if (i >= FULL_PAGE_SOURCES) return null;
+    try {
+      return await fetchResearchSource(result);
+    } catch (error) {
+      console.warn(`Could not read ${result.url}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }));
+
+  return results
+    .map((result, i) => formatSource(i + 1, result, sources[i], query))
+    .join('\n\n---\n\n');
 }
 
 export async function researchTopic(topic: string): Promise<string> {
@@ -62,14 +140,7 @@ export async function researchTopic(topic: string): Promise<string> {
     return 'No research results available.';
   }
 
-  const context = results
-    .map(
-      (r, i) =>
-        `[Source ${i + 1}: ${r.source}] (${r.url})\n${r.title}\n${r.snippet}`
-    )
-    .join('\n\n---\n\n');
-
-  return `Research findings on "${topic}":\n\n${context}`;
+  return `Research findings on "${topic}":\n\n${await buildResearchContext(results, topic)}`;
 }
 
 export async function researchKeywords(keywords: string[]): Promise<string> {
@@ -90,17 +161,9 @@ export async function researchKeywords(keywords: string[]): Promise<string> {
     return 'No research results available.';
   }
 
-  const context = uniqueResults
-    .slice(0, 8)
-    .map(
-      (r, i) =>
-        `[Source ${i + 1}: ${r.source}] (${r.url})\n${r.title}\n${r.snippet}`
-    )
-    .join('\n\n---\n\n');
-
-  return `Research findings:\n\n${context}`;
+  return `Research findings:\n\n${await buildResearchContext(uniqueResults.slice(0, 8), keywords.slice(0, 3).join(' '))}`;
 }
 
 export function isResearchAvailable(): boolean {
-  return tavilyApiKey !== null;
+  return searchProvider !== null;
 }
@@ -0,0 +1,160 @@
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { basename, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { Post } from '@tryghost/admin-api';
+import type { GhostClient } from '../ghost.js';
+
+interface StoredPost extends Post {
+  created_at: string;
+}
+
+interface StoreFile {
+  posts: StoredPost[];
+}
+
+function ghostError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Only the filters this codebase uses: "status:draft", "status:[draft,published]",
+// "id:[id1,id2]" and "updated_at:>='<ISO date>'", optionally joined with "+"
+function matchesFilter(post: Post, filter?: string): boolean {
+  if (!filter) return true;
+
+  return filter.split('+').every(clause => {
+    const since = clause.match(/^updated_at:>='([^']+)'$/);
+    if (since) return (post.updated_at || '') >= since[1];
+
+    const match = clause.match(/^(status|id):\[?([a-z0-9,]+)\]?$/);
+    return !match || match[2].split(',').includes(match[1] === 'id' ? post.id : post.status);
+  });
+}
+
+function pickFields(post: StoredPost, fields?: string, include?: string): Post {
+  const picked: any = fields
+    ? Object.fromEntries(fields.split(',').map(field => [field.trim(), (post as any)[field.trim()]]))
+    : { ...post };
+
+  if (include?.split(',').includes('tags')) picked.tags = post.tags || [];
+  else if (fields) delete picked.tags;
+
+  return picked as Post;
+}
+
+/**
+ * File-backed stand-in for the Ghost Admin API, covering the posts and images calls
+ * this codebase makes. Posts live in `ghost-posts.json`; each one is also written to
+ * `posts/<slug>.html` so a draft can be opened in a browser, and that file is its URL.
+ * Edits with a stale updated_at fail with UpdateCollisionError, as Ghost's do.
+ */
+export function createFileGhostClient(dir: string): GhostClient {
+  const storePath = join(dir, 'ghost-posts.json');
+  const postsDir = join(dir, 'posts');
+  const imagesDir = join(dir, 'images');
+
+  function load(): StoreFile {
+    return existsSync(storePath) ? JSON.parse(readFileSync(storePath, 'utf-8')) : { posts: [] };
+  }
+
+  function save(store: StoreFile): void {
+    writeFileSync(storePath, JSON.stringify(store, null, 2));
+  }
+
+  function writePreview(post: StoredPost): string {
+    if (!existsSync(postsDir)) mkdirSync(postsDir, { recursive: true });
+    const path = join(postsDir, `${post.slug}.html`);
+    writeFileSync(path, `<!doctype html>\n<meta charset="utf-8">\n<title>${post.title}</title>\n<h1>${post.title}</h1>\n${post.html || ''}\n`);
+    return pathToFileURL(path).href;
+  }
+
+  function uniqueSlug(store: StoreFile, slug: string, id?: string): string {
+    let candidate = slug;
+    for (let n = 2; store.posts.some(p => p.slug === candidate && p.id !== id); n++) {
+      candidate = `${slug}-${n}`;
+    }
+    return candidate;
+  }
+
+  return {
+    posts: {
+      async browse(options = {}) {
+        const matching = load().posts.filter(post => matchesFilter(post, options.filter));
+
+        const [orderField, direction] = (options.order || 'created_at desc').split(' ');
+        matching.sort((a, b) => {
+          const compare = String((a as any)[orderField] || '').localeCompare(String((b as any)[orderField] || ''));
+          return direction === 'asc' ? compare : -compare;
+        });
+
+        const limit = options.limit || 15;
+        const page = options.page || 1;
+        const results: any = matching
+          .slice((page - 1) * limit, page * limit)
+          .map(post => pickFields(post, options.fields, options.include));
+        results.meta = { pagination: { next: page * limit < matching.length ? page + 1 : null } };
+        return results;
+      },
+
+      async read(data) {
+        const post = load().posts.find(p => (data.id && p.id === data.id) || (data.slug && p.slug === data.slug));
+        if (!post) throw ghostError('NotFoundError', 'Post not found.');
+        return post;
+      },
+
+      async add(data) {
+        const store = load();
+        const now = new Date().toISOString();
+        const post: StoredPost = {
+          ...data,
+          id: randomBytes(12).toString('hex'),
+          slug: uniqueSlug(store, data.slug),
+          status: data.status || 'draft',
+          url: '',
+          created_at: now,
+          updated_at: now,
+        };
+        post.url = writePreview(post);
+
+        store.posts.push(post);
+        save(store);
+        return post;
+      },
+
+      async edit(data) {
+        const store = load();
+        const index = store.posts.findIndex(p => p.id === data.id);
+        if (index === -1) throw ghostError('NotFoundError', 'Post not found.');
+
+        const current = store.posts[index];
+        if (data.updated_at !== current.updated_at) {
+          throw ghostError('UpdateCollisionError', 'Saving failed! Someone else is editing this post.');
+        }
+
+        const { id, updated_at, ...changes } = data;
+        const post: StoredPost = {
+          ...current,
+          ...changes,
+          slug: changes.slug ? uniqueSlug(store, changes.slug, id) : current.slug,
+          updated_at: new Date().toISOString(),
+        };
+        post.url = writePreview(post);
+
+        store.posts[index] = post;
+        save(store);
+        return post;
+      },
+    },
+
+    images: {
+      async upload({ file }) {
+        if (!existsSync(imagesDir)) mkdirSync(imagesDir, { recursive: true });
+        const dest = join(imagesDir, `${Date.now()}-${basename(file)}`);
+        copyFileSync(file, dest);
+        return { url: pathToFileURL(dest).href };
+      },
+    },
+  };
+}
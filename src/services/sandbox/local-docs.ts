@@ -0,0 +1,98 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { normalizeFolderName, type DocFile, type LocalDocumentSource } from '../google-docs.js';
+import { markdownToBlocks } from '../../utils/interview-parser.js';
+import { generateSlug } from '../../utils/metadata.js';
+import type { SourceImage } from '../../types/index.js';
+
+const DOC_EXTENSIONS = ['.md', '.txt'];
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+interface LocalDoc extends DocFile {
+  path: string;
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.slice(0, fileName.length - extname(fileName).length);
+}
+
+function readFolder(rootDir: string, folderId: string): LocalDoc[] {
+  const folder = join(rootDir, folderId);
+  if (!existsSync(folder)) return [];
+
+  return readdirSync(folder)
+    .filter(name => DOC_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .map(name => {
+      const path = join(folder, name);
+      const stats = statSync(path);
+      const title = stripExtension(name);
+      return {
+        id: generateSlug(title),
+        title,
+        path,
+        createdAt: stats.birthtime,
+        modifiedAt: stats.mtime,
+      };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Drive and Docs stand-in backed by a local directory. Each subfolder (e.g.
+ * `interviews/`, `ideas/`) is a folder ID, and each .md/.txt file in it a document
+ * whose ID is its slugified file name. Images go in a subfolder named after the
+ * interview, as they would on Drive.
+ */
+export function createLocalDocumentSource(rootDir: string): LocalDocumentSource {
+  function findDoc(documentId: string): LocalDoc {
+    const folders = readdirSync(rootDir).filter(name => statSync(join(rootDir, name)).isDirectory());
+    for (const folderId of folders) {
+      const doc = readFolder(rootDir, folderId).find(d => d.id === documentId);
+      if (doc) return doc;
+    }
+    throw new Error(`Document not found in ${rootDir}: ${documentId}`);
+  }
+
+  return {
+    async listDocuments(folderId: string): Promise<DocFile[]> {
+      return readFolder(rootDir, folderId).map(({ path, ...file }) => file);
+    },
+
+    async getDocument(documentId: string): Promise<DocFile> {
+      const { path, ...file } = findDoc(documentId);
+      return file;
+    },
+
+    async getDocumentBlocks(documentId: string) {
+      return markdownToBlocks(readFileSync(findDoc(documentId).path, 'utf-8'));
+    },
+
+    async getImages(documentId: string): Promise<SourceImage[]> {
+      const doc = findDoc(documentId);
+      const parent = join(doc.path, '..');
+      const docName = normalizeFolderName(doc.title);
+
+      const folder = readdirSync(parent).find(
+        name => statSync(join(parent, name)).isDirectory() && normalizeFolderName(name) === docName
+      );
+      if (!folder) return [];
+
+      return readdirSync(join(parent, folder))
+        .filter(name => IMAGE_TYPES[extname(name).toLowerCase()])
+        .sort()
+        .map(name => ({
+          fileName: name,
+          mimeType: IMAGE_TYPES[extname(name).toLowerCase()],
+          data: readFileSync(join(parent, folder, name)),
+          alt: stripExtension(name).replace(/[-_]+/g, ' '),
+        }));
+    },
+  };
+}
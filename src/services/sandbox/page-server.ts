@@ -0,0 +1,36 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { createServer } from 'http';
+import { join, normalize } from 'path';
+
+/**
+ * Serve saved web pages from `pagesDir` on a local port, standing in for the
+ * sites search results point to. A request for /<host>/<path> is answered with
+ * pagesDir/<host>/<path>.html (index.html for a site's root); anything else is a 404.
+ * Resolves to the server's origin. The server doesn't keep the process alive.
+ */
+export function startPageServer(pagesDir: string): Promise<string> {
+  const server = createServer((request, response) => {
+    const path = normalize(decodeURIComponent((request.url || '/').split('?')[0])).replace(/^(\.\.[/\\])+/, '');
+    const file = path.endsWith('/') ? join(pagesDir, path, 'index.html') : join(pagesDir, `${path}.html`);
+
+    response.setHeader('Connection', 'close');
+    if (!file.startsWith(pagesDir) || !existsSync(file) || !statSync(file).isFile()) {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('Not found');
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(readFileSync(file));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.unref();
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+}
@@ -0,0 +1,28 @@
+import type { SearchProvider } from '../search-providers.js';
+import type { ResearchResult } from '../../types/index.js';
+
+/**
+ * Search provider that answers every query from a fixed set of results (the
+ * sandbox's search-results.json). Results are ranked by how many query words
+ * they contain; with no overlap, all of them are returned.
+ */
+export function createFixtureSearchProvider(results: ResearchResult[]): SearchProvider {
+  return {
+    name: 'fixture',
+    cacheable: false,
+
+    async search(query, { maxResults }) {
+      const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+      const scored = results
+        .map(result => {
+          const text = `${result.title} ${result.snippet}`.toLowerCase();
+          return { result, score: terms.filter(term => text.includes(term)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ result }) => result);
+
+      return (scored.length > 0 ? scored : results).slice(0, maxResults);
+    },
+  };
+}
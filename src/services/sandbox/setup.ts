@@ -0,0 +1,60 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { useGhostClient } from '../ghost.js';
+import { useLocalDocuments } from '../google-docs.js';
+import { useSearchProvider } from '../research.js';
+import { usePageHost } from '../source-store.js';
+import { setStateDirectory } from '../state-store.js';
+import { createFileGhostClient } from './ghost-store.js';
+import { createLocalDocumentSource } from './local-docs.js';
+import { startPageServer } from './page-server.js';
+import { createFixtureSearchProvider } from './search-fixtures.js';
+import type { ResearchResult } from '../../types/index.js';
+
+const DEFAULT_SANDBOX_DIR = './sandbox';
+
+// Subfolders of the sandbox that stand in for the Drive folders
+const INTERVIEWS_FOLDER = 'interviews';
+const IDEAS_FOLDER = 'ideas';
+
+/**
+ * The sandbox directory to use, if any. Sandbox mode is on with the --sandbox flag or
+ * when SANDBOX_DIR is set, which also picks the directory. Returns null for live services.
+ */
+export function getSandboxDir(enabled?: boolean): string | null {
+  if (!enabled && !process.env.SANDBOX_DIR) return null;
+  return resolve(process.env.SANDBOX_DIR || DEFAULT_SANDBOX_DIR);
+}
+
+// search-results.json holds Tavily-style results: [{ "title", "url", "content" }]
+function loadCannedResults(path: string): ResearchResult[] {
+  if (!existsSync(path)) return [];
+
+  const results = JSON.parse(readFileSync(path, 'utf-8')) as Array<{ title: string; url: string; content: string }>;
+  return results.map(result => ({
+    title: result.title,
+    url: result.url,
+    snippet: result.content,
+    source: new URL(result.url).hostname,
+  }));
+}
+
+/**
+ * Point Ghost, Drive, web search and page fetches at file-backed stand-ins in `dir`,
+ * so generators, the agent and the schedulers run end to end with only an Anthropic key.
+ */
+export function initSandbox(dir: string): void {
+  if (!existsSync(dir)) {
+    throw new Error(`Sandbox directory not found: ${dir}`);
+  }
+
+  // Call sites read the folder IDs from the environment, so point them at the sandbox folders
+  process.env.GOOGLE_INTERVIEWS_FOLDER_ID = INTERVIEWS_FOLDER;
+  process.env.GOOGLE_IDEAS_FOLDER_ID = IDEAS_FOLDER;
+
+  useLocalDocuments(createLocalDocumentSource(dir));
+  useGhostClient(createFileGhostClient(dir));
+  useSearchProvider(createFixtureSearchProvider(loadCannedResults(join(dir, 'search-results.json'))));
+  usePageHost(startPageServer(resolve(dir, 'pages')));
+  setStateDirectory(dir);
+}
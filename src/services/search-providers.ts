@@ -0,0 +1,57 @@
+import type { ResearchResult } from '../types/index.js';
+
+export interface SearchOptions {
+  maxResults: number;
+  // Providers that can exclude domains should; results are filtered against the blocklist either way
+  excludeDomains: string[];
+}
+
+/**
+ * A web search backend. Providers only fetch results; caching and blocklist
+ * filtering happen in the research service, the same for every provider.
+ */
+export interface SearchProvider {
+  // Part of the cache key, so results from different providers never mix
+  name: string;
+  // False for providers whose results are already local (fixtures)
+  cacheable: boolean;
+  search(query: string, options: SearchOptions): Promise<ResearchResult[]>;
+}
+
+const TAVILY_API_URL = 'https://api.tavily.com/search';
+
+export function createTavilyProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'tavily',
+    cacheable: true,
+
+    async search(query, { maxResults, excludeDomains }) {
+      const response = await fetch(TAVILY_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          api_key: apiKey,
+          query: `${query} wedding industry`,
+          search_depth: 'advanced',
+          max_results: maxResults,
+          exclude_domains: excludeDomains,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Tavily API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      return (data.results || []).map((result: any) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content || result.snippet,
+        source: new URL(result.url).hostname,
+      }));
+    },
+  };
+}
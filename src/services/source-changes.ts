@@ -0,0 +1,72 @@
+import { getDocumentSnapshot } from './google-docs.js';
+import { getSourceRecord, loadSourceSnapshot, saveSourceSnapshot, type SourceRecord } from './state-store.js';
+import { diffLines, hasChanges, summarizeDiff } from '../utils/diff.js';
+
+export interface SourceChange {
+  record: SourceRecord;
+  modifiedAt: Date;
+  content: string;
+  summary: string;
+}
+
+/**
+ * Snapshot a source doc's current text for later change detection.
+ * Failures only warn - a missing snapshot just means a less detailed change summary.
+ */
+export async function snapshotSource(sourceId: string): Promise<void> {
+  try {
+    const { content, modifiedAt } = await getDocumentSnapshot(sourceId);
+    saveSourceSnapshot(sourceId, content, modifiedAt);
+  } catch (error) {
+    console.warn(`Could not snapshot source ${sourceId}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Find sources edited since their post was generated. Docs whose modifiedTime moved
+ * without any text change (comments, formatting) are re-baselined and not reported.
+ */
+export async function findChangedSources(
+  sources: Array<{ id: string; modifiedAt?: Date }>
+): Promise<SourceChange[]> {
+  const changes: SourceChange[] = [];
+
+  for (const source of sources) {
+    const record = getSourceRecord(source.id);
+    if (!record?.postId || !source.modifiedAt) continue;
+
+    const baseline = new Date(record.sourceModifiedAt || record.generatedAt);
+    if (source.modifiedAt <= baseline) continue;
+
+    const { content, modifiedAt } = await getDocumentSnapshot(source.id);
+    const previous = loadSourceSnapshot(source.id);
+
+    let summary: string;
+    if (previous === null) {
+      summary = 'Edited after the post was generated (no earlier snapshot to compare against)';
+    } else {
+      const diff = diffLines(previous, content);
+      if (!hasChanges(diff)) {
+        saveSourceSnapshot(source.id, content, modifiedAt);
+        continue;
+      }
+      summary = summarizeDiff(diff);
+    }
+
+    changes.push({
+      record,
+      modifiedAt: modifiedAt || source.modifiedAt,
+      content,
+      summary,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Accept a source change without regenerating, so it isn't reported again.
+ */
+export function acknowledgeSourceChange(change: SourceChange): void {
+  saveSourceSnapshot(change.record.sourceId, change.content, change.modifiedAt);
+}
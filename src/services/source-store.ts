@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import { lookup } from 'dns/promises';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { isIP } from 'net';
+import { join } from 'path';
+import { getStateDirectory } from './state-store.js';
+import { isBlockedDomain } from '../utils/blocklist.js';
+import { extractPage } from '../utils/page-extract.js';
+import { tokenize } from '../utils/tokenize.js';
+import type { ResearchResult } from '../types/index.js';
+
+const FETCH_TIMEOUT_MS = 15_000;
+// Larger responses are cut off; article text is always well inside this
+const MAX_PAGE_BYTES = 2_000_000;
+const MAX_REDIRECTS = 5;
+
+/**
+ * A web page read in full for research, with the metadata needed to cite it.
+ */
+export interface ResearchSource {
+  id: string;
+  url: string;
+  title: string;
+  site: string;
+  author?: string;
+  publishedAt?: string;
+  fetchedAt: string;
+  // The search result's summary, for pages found through search
+  snippet?: string;
+  paragraphs: string[];
+}
+
+// Stand-in origin for page fetches (the sandbox's local page server)
+let pageHost: Promise<string> | null = null;
+
+/**
+ * Fetch pages from a local server instead of the web: https://site.com/path is
+ * requested as <host>/site.com/path. The source keeps its real URL for citing.
+ */
+export function usePageHost(host: Promise<string>): void {
+  pageHost = host;
+}
+
+function sourceId(url: string): string {
+  return createHash('sha256').update(url).digest('hex').slice(0, 12);
+}
+
+// Kept next to the content state, so sandbox pages stay in the sandbox
+function getSourcesDir(): string {
+  return join(getStateDirectory(), 'research-sources');
+}
+
+export function getResearchSource(idOrUrl: string): ResearchSource | null {
+  const id = /^https?:\/\//.test(idOrUrl) ? sourceId(idOrUrl) : idOrUrl;
+  const path = join(getSourcesDir(), `${id}.json`);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as ResearchSource : null;
+}
+
+// Loopback, private, link-local and other addresses that aren't on the public internet
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^::ffff:(?=\d+\.)/, '');
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip);
+}
+
+/**
+ * Refuse URLs research must not read: anything but http(s), competitor sites, and
+ * hosts on this machine or the local network (by name, or by what the name resolves to).
+ */
+async function assertFetchable(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${url.href} is not a web page address`);
+  }
+  if (isBlockedDomain(url.href)) {
+    throw new Error(`${url.href} is a competitor site`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || (isIP(hostname) && isPrivateAddress(hostname))) {
+    throw new Error(`${url.href} is not a public address`);
+  }
+  // Sandbox pages come from the local page server, so there's nothing to resolve
+  if (pageHost || isIP(hostname)) return;
+
+  const addresses = await lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${url.href} is not a public address`);
+  }
+}
+
+// Redirects are followed one at a time, so every hop gets the same checks as the first URL
+async function fetchHtml(url: string): Promise<string> {
+  let current = new URL(url);
+  let response: Response;
+
+  for (let hops = 0; ; hops++) {
+    await assertFetchable(current);
+    const target = pageHost ? `${await pageHost}/${current.hostname}${current.pathname}${current.search}` : current.href;
+
+    response = await fetch(target, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; ghost-agent research)',
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (hops >= MAX_REDIRECTS) {
+      throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+    }
+    current = new URL(location, current);
+  }
+
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  const type = response.headers.get('content-type') || '';
+  if (!type.includes('html')) {
+    throw new Error(`${url} is not a web page (${type || 'unknown type'})`);
+  }
+
+  return (await response.text()).slice(0, MAX_PAGE_BYTES);
+}
+
+/**
+ * Read the full page behind a URL (or search result) and keep it in the local
+ * source store. A page already in the store is not fetched again.
+ * Throws when the page can't be fetched or has no readable text.
+ */
+export async function fetchResearchSource(target: string | ResearchResult): Promise<ResearchSource> {
+  const url = typeof target === 'string' ? target : target.url;
+  const stored = getResearchSource(url);
+  if (stored) return stored;
+
+  const page = extractPage(await fetchHtml(url));
+  if (page.paragraphs.length === 0) {
+    throw new Error(`No readable text found at ${url}`);
+  }
+
+  const source: ResearchSource = {
+    id: sourceId(url),
+    url,
+    title: page.title || (typeof target === 'string' ? url : target.title),
+    site: page.siteName || new URL(url).hostname.replace(/^www\./, ''),
+    author: page.author,
+    publishedAt: page.publishedAt,
+    fetchedAt: new Date().toISOString(),
+    snippet: typeof target === 'string' ? undefined : target.snippet,
+    paragraphs: page.paragraphs,
+  };
+
+  const dir = getSourcesDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${source.id}.json`), JSON.stringify(source, null, 2));
+  return source;
+}
+
+/**
+ * The paragraphs of a source that best match the query, in page order. Words
+ * found in fewer paragraphs count for more, so the passages that are actually
+ * about the topic win over ones that only share common words.
+ */
+export function selectPassages(source: ResearchSource, query: string, count: number = 3): string[] {
+  const terms = new Set(tokenize(query));
+  const paragraphs = source.paragraphs.map(text => ({ text, tokens: new Set(tokenize(text)) }));
+
+  const weight = (term: string) => {
+    const df = paragraphs.filter(p => p.tokens.has(term)).length;
+    return df ? Math.log(1 + paragraphs.length / df) : 0;
+  };
+
+  return paragraphs
+    .map((paragraph, index) => ({
+      index,
+      text: paragraph.text,
+      score: [...terms].filter(term => paragraph.tokens.has(term)).reduce((sum, term) => sum + weight(term), 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(passage => passage.text);
+}
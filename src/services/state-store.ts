@@ -0,0 +1,207 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import type { SimilarityIndex } from './duplicates.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const LEGACY_PROCESSED_FILE = join(__dirname, '../../config/processed-interviews.json');
+
+let stateDir = join(__dirname, '../../config');
+let stateFile = join(stateDir, 'content-state.json');
+let snapshotDir = join(stateDir, 'source-snapshots');
+
+export type SourceType = 'interview' | 'idea';
+
+// generated: a Ghost post exists for the source
+// skipped:   deliberately not generated (e.g. covered before this store existed)
+// failed:    the last attempt errored or produced no draft
+// pending:   a draft is waiting for an editor's approval
+export type SourceStatus = 'generated' | 'skipped' | 'failed' | 'pending';
+
+export interface SourceRecord {
+  sourceId: string;
+  sourceType: SourceType;
+  sourceTitle: string;
+  status: SourceStatus;
+  postId?: string;
+  postUrl?: string;
+  generatedAt: string;
+  runId: string;
+  note?: string;
+  // Source doc's modifiedTime when its text was last snapshotted
+  sourceModifiedAt?: string;
+}
+
+interface StateFile {
+  sources: Record<string, SourceRecord>;
+  // Source types already checked against existing posts (see seedFromExistingArticles)
+  seededTypes?: SourceType[];
+}
+
+let state: StateFile | null = null;
+
+/**
+ * Keep the state file and source snapshots somewhere other than config/
+ * (the sandbox keeps its own so sandbox posts never mix with real ones).
+ */
+export function setStateDirectory(dir: string): void {
+  stateDir = dir;
+  stateFile = join(dir, 'content-state.json');
+  snapshotDir = join(dir, 'source-snapshots');
+  state = null;
+}
+
+export function getStateDirectory(): string {
+  return stateDir;
+}
+
+function loadState(): StateFile {
+  if (state) return state;
+
+  if (existsSync(stateFile)) {
+    state = JSON.parse(readFileSync(stateFile, 'utf-8')) as StateFile;
+  } else {
+    state = { sources: {} };
+  }
+  return state;
+}
+
+function saveState(): void {
+  writeFileSync(stateFile, JSON.stringify(loadState(), null, 2));
+}
+
+/**
+ * Whether any of these source types still has to be checked against existing posts.
+ */
+export function needsSeeding(types: SourceType[]): boolean {
+  const seeded = loadState().seededTypes || [];
+  return types.some(type => !seeded.includes(type));
+}
+
+export function newRunId(kind: string): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${kind}-${stamp}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function getSourceRecord(sourceId: string): SourceRecord | undefined {
+  return loadState().sources[sourceId];
+}
+
+export function findRecordByPostId(postId: string): SourceRecord | undefined {
+  return Object.values(loadState().sources).find(r => r.postId === postId);
+}
+
+export function listSourceRecords(sourceType?: SourceType): SourceRecord[] {
+  return Object.values(loadState().sources)
+    .filter(r => !sourceType || r.sourceType === sourceType)
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+/**
+ * Whether a source should be left alone by the schedulers:
+ * it already has a post, or was explicitly skipped. Failed sources are retried.
+ */
+export function isSourceHandled(sourceId: string): boolean {
+  const record = getSourceRecord(sourceId);
+  return record !== undefined && record.status !== 'failed';
+}
+
+export function recordSource(
+  record: Omit<SourceRecord, 'generatedAt'> & { generatedAt?: string }
+): SourceRecord {
+  const current = loadState();
+  const saved: SourceRecord = {
+    ...record,
+    generatedAt: record.generatedAt || new Date().toISOString(),
+  };
+  current.sources[record.sourceId] = saved;
+  saveState();
+  return saved;
+}
+
+export function removeSourceRecord(sourceId: string): boolean {
+  const current = loadState();
+  if (!current.sources[sourceId]) return false;
+  delete current.sources[sourceId];
+  saveState();
+  return true;
+}
+
+function getSnapshotPath(sourceId: string): string {
+  return join(snapshotDir, `${sourceId}.txt`);
+}
+
+/**
+ * Keep a copy of the source text a post was generated from, so later edits can be diffed.
+ */
+export function saveSourceSnapshot(sourceId: string, content: string, modifiedAt?: Date): void {
+  if (!existsSync(snapshotDir)) {
+    mkdirSync(snapshotDir, { recursive: true });
+  }
+  writeFileSync(getSnapshotPath(sourceId), content);
+
+  const record = getSourceRecord(sourceId);
+  if (record) {
+    record.sourceModifiedAt = (modifiedAt || new Date()).toISOString();
+    saveState();
+  }
+}
+
+export function loadSourceSnapshot(sourceId: string): string | null {
+  const path = getSnapshotPath(sourceId);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+/**
+ * One-time bootstrap, per source type, for sources that were turned into posts before
+ * this store existed. Imports the old processed-interviews.json and marks sources whose
+ * title matches an existing post (via the duplicate checker, over post titles and bodies)
+ * as skipped. Sources that already have a record are left alone, so it doesn't matter
+ * what was recorded first. A type counts as seeded once any of its sources have been
+ * through here. A wrongly skipped source can be cleared with `sources reset`.
+ */
+export function seedFromExistingArticles(
+  sources: Array<{ id: string; title: string; type: SourceType }>,
+  existingArticles: SimilarityIndex
+): number {
+  const current = loadState();
+  const seededTypes = current.seededTypes || [];
+  const toSeed = sources.filter(source => !seededTypes.includes(source.type));
+  if (toSeed.length === 0) return 0;
+
+  const runId = newRunId('seed');
+  let seeded = 0;
+
+  const legacyProcessed: string[] = existsSync(LEGACY_PROCESSED_FILE)
+    ? JSON.parse(readFileSync(LEGACY_PROCESSED_FILE, 'utf-8')).processed || []
+    : [];
+
+  for (const source of toSeed) {
+    if (current.sources[source.id]) continue;
+
+    // Doc titles like "Interview - Jane Doe" say what the doc is, not what the post is about
+    const title = source.title.replace(/\b(interview|piece|article)\b/gi, ' ');
+    const check = existingArticles.check({ title });
+    const match = check.isDuplicate ? check.matches[0].article : undefined;
+
+    if (!match && !legacyProcessed.includes(source.id)) continue;
+
+    current.sources[source.id] = {
+      sourceId: source.id,
+      sourceType: source.type,
+      sourceTitle: source.title,
+      status: 'skipped',
+      postId: match?.id,
+      generatedAt: new Date().toISOString(),
+      runId,
+      note: match ? `Seeded from existing post "${match.title}"` : 'Imported from processed-interviews.json',
+    };
+    seeded++;
+  }
+
+  current.seededTypes = [...new Set([...seededTypes, ...toSeed.map(source => source.type)])];
+  saveState();
+  return seeded;
+}
@@ -0,0 +1,155 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getStateDirectory } from './state-store.js';
+import { truncateText } from '../utils/metadata.js';
+
+// Tool output is kept only up to this length; inputs are kept whole
+const MAX_TOOL_OUTPUT_LENGTH = 2000;
+
+export type AgentOutcome = 'completed' | 'iteration_limit' | 'budget_reached' | 'error';
+
+export type TranscriptEvent =
+  | { type: 'start'; timestamp: string; transcriptId: string; runId: string; request: string; requireApproval: boolean }
+  | {
+      type: 'assistant';
+      timestamp: string;
+      iteration: number;
+      model: string;
+      stopReason: string | null;
+      text: string;
+      toolCalls: string[];
+      inputTokens: number;
+      outputTokens: number;
+      durationMs: number;
+    }
+  | {
+      type: 'tool';
+      timestamp: string;
+      iteration: number;
+      name: string;
+      input: unknown;
+      output: string;
+      isError: boolean;
+      durationMs: number;
+    }
+  | { type: 'end'; timestamp: string; outcome: AgentOutcome; iterations: number; durationMs: number; finalText: string; error?: string };
+
+export interface TranscriptSummary {
+  transcriptId: string;
+  runId: string;
+  request: string;
+  startedAt: string;
+  outcome?: AgentOutcome;
+  iterations?: number;
+  toolCalls: number;
+  durationMs?: number;
+}
+
+export interface Transcript {
+  transcriptId: string;
+  startedAt: number;
+  log(event: DistributiveOmit<TranscriptEvent, 'timestamp'>): void;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Kept next to the content state, so sandbox transcripts stay in the sandbox
+function getRunsDir(): string {
+  return join(getStateDirectory(), 'runs');
+}
+
+/**
+ * Start a JSONL transcript for one agent run. Every event is appended as it
+ * happens, so a run that crashes still leaves everything up to the crash.
+ */
+export function startTranscript(transcriptId: string, runId: string, request: string, requireApproval: boolean): Transcript {
+  const dir = getRunsDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${transcriptId}.jsonl`);
+
+  const transcript: Transcript = {
+    transcriptId,
+    startedAt: Date.now(),
+    log(event) {
+      appendFileSync(path, JSON.stringify({ ...event, timestamp: new Date().toISOString() }) + '\n');
+    },
+  };
+
+  transcript.log({ type: 'start', transcriptId, runId, request, requireApproval });
+  return transcript;
+}
+
+export function logAssistantTurn(
+  transcript: Transcript,
+  iteration: number,
+  response: Anthropic.Message,
+  durationMs: number
+): void {
+  transcript.log({
+    type: 'assistant',
+    iteration,
+    model: response.model,
+    stopReason: response.stop_reason,
+    text: response.content.filter(b => b.type === 'text').map(b => (b as Anthropic.TextBlock).text).join('\n'),
+    toolCalls: response.content.filter(b => b.type === 'tool_use').map(b => (b as Anthropic.ToolUseBlock).name),
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+    durationMs,
+  });
+}
+
+export function logToolCall(
+  transcript: Transcript,
+  iteration: number,
+  call: { name: string; input: unknown; output: string; isError: boolean; durationMs: number }
+): void {
+  transcript.log({
+    type: 'tool',
+    iteration,
+    ...call,
+    output: truncateText(call.output, MAX_TOOL_OUTPUT_LENGTH),
+  });
+}
+
+export function loadTranscript(transcriptId: string): TranscriptEvent[] | null {
+  const path = join(getRunsDir(), `${transcriptId}.jsonl`);
+  if (!existsSync(path)) return null;
+
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as TranscriptEvent);
+}
+
+function summarize(events: TranscriptEvent[]): TranscriptSummary | null {
+  const start = events[0];
+  if (start?.type !== 'start') return null;
+  const end = events.find(e => e.type === 'end');
+
+  return {
+    transcriptId: start.transcriptId,
+    runId: start.runId,
+    request: start.request,
+    startedAt: start.timestamp,
+    outcome: end?.type === 'end' ? end.outcome : undefined,
+    iterations: end?.type === 'end' ? end.iterations : undefined,
+    toolCalls: events.filter(e => e.type === 'tool').length,
+    durationMs: end?.type === 'end' ? end.durationMs : undefined,
+  };
+}
+
+/**
+ * Agent transcripts, newest first. A transcript without an outcome is still
+ * running or was cut off.
+ */
+export function listTranscripts(): TranscriptSummary[] {
+  const dir = getRunsDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.jsonl'))
+    .map(file => summarize(loadTranscript(file.replace(/\.jsonl$/, '')) || []))
+    .filter((summary): summary is TranscriptSummary => summary !== null)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
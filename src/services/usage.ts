@@ -0,0 +1,200 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { newRunId } from './state-store.js';
+import type { ModelPricing, ModelTask } from './models.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const USAGE_FILE = join(__dirname, '../../config/usage.jsonl');
+
+// Prompt caching is billed relative to the base input price
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+export interface UsageRecord {
+  timestamp: string;
+  runId: string;
+  command: string;
+  article?: string;
+  task: ModelTask;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  // null when the model has no pricing in config/models.json
+  costUsd: number | null;
+}
+
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedRequests: number;
+}
+
+interface UsageRun {
+  runId: string;
+  command: string;
+  budgetUsd?: number;
+  records: UsageRecord[];
+}
+
+let currentRun: UsageRun | null = null;
+let currentArticle: string | undefined;
+
+/**
+ * A spending cap in USD, or undefined unless the value is a positive number ("5usd" isn't).
+ */
+export function parseBudget(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  const budget = Number(value);
+  return Number.isFinite(budget) && budget > 0 ? budget : undefined;
+}
+
+/**
+ * Start attributing usage to a command or scheduler run. The budget defaults to
+ * RUN_BUDGET_USD; without one the run is only tracked, never stopped.
+ */
+export function startUsageRun(runId: string, command: string, budgetUsd?: number): void {
+  currentRun = {
+    runId,
+    command,
+    budgetUsd: budgetUsd ?? parseBudget(process.env.RUN_BUDGET_USD),
+    records: [],
+  };
+}
+
+function getCurrentRun(): UsageRun {
+  if (!currentRun) startUsageRun(newRunId('adhoc'), 'adhoc');
+  return currentRun!;
+}
+
+/**
+ * Attribute the usage of everything `fn` does to one article (e.g. its source doc title).
+ */
+export async function withArticleUsage<T>(article: string, fn: () => Promise<T>): Promise<T> {
+  const previous = currentArticle;
+  currentArticle = article;
+  try {
+    return await fn();
+  } finally {
+    currentArticle = previous;
+  }
+}
+
+function calculateCost(usage: Anthropic.Usage, pricing: ModelPricing | undefined): number | null {
+  if (!pricing) return null;
+  const perToken = (pricePerMillion: number) => pricePerMillion / 1_000_000;
+  return (
+    usage.input_tokens * perToken(pricing.input) +
+    usage.output_tokens * perToken(pricing.output) +
+    (usage.cache_creation_input_tokens || 0) * perToken(pricing.input * CACHE_WRITE_MULTIPLIER) +
+    (usage.cache_read_input_tokens || 0) * perToken(pricing.input * CACHE_READ_MULTIPLIER)
+  );
+}
+
+export function recordUsage(
+  task: ModelTask,
+  model: string,
+  usage: Anthropic.Usage,
+  pricing: ModelPricing | undefined
+): UsageRecord {
+  const run = getCurrentRun();
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    runId: run.runId,
+    command: run.command,
+    ...(currentArticle ? { article: currentArticle } : {}),
+    task,
+    model,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    costUsd: calculateCost(usage, pricing),
+  };
+
+  run.records.push(record);
+  appendFileSync(USAGE_FILE, JSON.stringify(record) + '\n');
+  return record;
+}
+
+export function getRunUsage(): UsageSummary & { budgetUsd?: number } {
+  const run = getCurrentRun();
+  return { ...summarize(run.runId, run.records), budgetUsd: run.budgetUsd };
+}
+
+export function isBudgetExceeded(): boolean {
+  const { costUsd, budgetUsd } = getRunUsage();
+  return budgetUsd !== undefined && costUsd >= budgetUsd;
+}
+
+/**
+ * Throw before a request once the run has spent its budget. The request that
+ * crosses the limit still completes, so a run can end slightly over budget.
+ */
+export function assertWithinBudget(): void {
+  if (isBudgetExceeded()) {
+    const { costUsd, budgetUsd } = getRunUsage();
+    throw new Error(`Usage budget reached: spent ${formatCost(costUsd)} of ${formatCost(budgetUsd!)} for this run`);
+  }
+}
+
+export function loadUsageRecords(since?: Date): UsageRecord[] {
+  if (!existsSync(USAGE_FILE)) return [];
+
+  return readFileSync(USAGE_FILE, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as UsageRecord)
+    .filter(record => !since || new Date(record.timestamp) >= since);
+}
+
+function summarize(key: string, records: UsageRecord[]): UsageSummary {
+  return {
+    key,
+    requests: records.length,
+    inputTokens: records.reduce((sum, r) => sum + r.inputTokens + r.cacheWriteTokens + r.cacheReadTokens, 0),
+    outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+    costUsd: records.reduce((sum, r) => sum + (r.costUsd ?? 0), 0),
+    unpricedRequests: records.filter(r => r.costUsd === null).length,
+  };
+}
+
+/**
+ * Total usage grouped by a record field, most expensive first.
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  groupBy: (record: UsageRecord) => string | undefined
+): UsageSummary[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = groupBy(record) || '(none)';
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => summarize(key, group))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+export function totalUsage(records: UsageRecord[]): UsageSummary {
+  return summarize('total', records);
+}
+
+export function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export function formatUsage(summary: UsageSummary): string {
+  const tokens = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`);
+  const unpriced = summary.unpricedRequests > 0 ? `, ${summary.unpricedRequests} unpriced` : '';
+  return `${formatCost(summary.costUsd)} (${summary.requests} requests, ${tokens(summary.inputTokens)} in / ${tokens(summary.outputTokens)} out${unpriced})`;
+}
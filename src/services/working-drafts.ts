@@ -0,0 +1,103 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getStateDirectory, type SourceType } from './state-store.js';
+import type { Article } from '../types/index.js';
+
+export interface DraftRevision {
+  article: Article;
+  excerpt: string;
+  // The change asked for; absent for the first generation
+  instruction?: string;
+  createdAt: string;
+}
+
+/**
+ * An article being worked on before it goes to Ghost, keyed by its source doc.
+ * Every revision is kept, so changes can be diffed and undone.
+ */
+export interface WorkingDraft {
+  sourceId: string;
+  sourceType: SourceType;
+  sourceTitle: string;
+  createdAt: string;
+  updatedAt: string;
+  revisions: DraftRevision[];
+}
+
+// Kept next to the content state, so sandbox drafts stay in the sandbox
+function getDraftsDir(): string {
+  return join(getStateDirectory(), 'working-drafts');
+}
+
+function getDraftPath(sourceId: string): string {
+  return join(getDraftsDir(), `${sourceId}.json`);
+}
+
+function save(draft: WorkingDraft): WorkingDraft {
+  const dir = getDraftsDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(getDraftPath(draft.sourceId), JSON.stringify(draft, null, 2));
+  return draft;
+}
+
+export function getWorkingDraft(sourceId: string): WorkingDraft | null {
+  const path = getDraftPath(sourceId);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as WorkingDraft : null;
+}
+
+export function listWorkingDrafts(): WorkingDraft[] {
+  const dir = getDraftsDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(readFileSync(join(dir, file), 'utf-8')) as WorkingDraft)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getCurrentRevision(draft: WorkingDraft): DraftRevision {
+  return draft.revisions[draft.revisions.length - 1];
+}
+
+/**
+ * Start a working draft from a freshly generated article, replacing any earlier one for the source.
+ */
+export function startWorkingDraft(
+  source: { id: string; type: SourceType; title: string },
+  article: Article,
+  excerpt: string
+): WorkingDraft {
+  const now = new Date().toISOString();
+  return save({
+    sourceId: source.id,
+    sourceType: source.type,
+    sourceTitle: source.title,
+    createdAt: now,
+    updatedAt: now,
+    revisions: [{ article, excerpt, createdAt: now }],
+  });
+}
+
+export function addRevision(draft: WorkingDraft, article: Article, excerpt: string, instruction: string): WorkingDraft {
+  const now = new Date().toISOString();
+  draft.revisions.push({ article, excerpt, instruction, createdAt: now });
+  draft.updatedAt = now;
+  return save(draft);
+}
+
+/**
+ * Drop the latest revision. The first generation is never removed.
+ */
+export function undoRevision(draft: WorkingDraft): WorkingDraft {
+  if (draft.revisions.length <= 1) throw new Error('Nothing to undo - this is the first version');
+  draft.revisions.pop();
+  draft.updatedAt = new Date().toISOString();
+  return save(draft);
+}
+
+export function discardWorkingDraft(sourceId: string): boolean {
+  const path = getDraftPath(sourceId);
+  if (!existsSync(path)) return false;
+  rmSync(path);
+  return true;
+}
@@ -1,372 +1,175 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { listInterviews, getInterview, getAllInterviewsWithContent, listArticleIdeas, getIdea } from '../services/google-docs.js';
-import { getExistingArticles, searchExistingArticles, checkArticleExists, createDraftArticle } from '../services/ghost.js';
-import { sanitizeBlockedLinks } from '../utils/blocklist.js';
-import { generateSlug, generateMetaTitle, generateMetaDescription, suggestTags } from '../utils/metadata.js';
-import { searchWeb, researchTopic, initResearchService } from '../services/research.js';
+import { getAIClient } from '../services/ai.js';
+import { newRunId } from '../services/state-store.js';
+import { createMessage, type ModelTask } from '../services/models.js';
+import { isBudgetExceeded } from '../services/usage.js';
+import { isApprovalRequired } from '../services/approvals.js';
+import { startTranscript, logAssistantTurn, logToolCall, type AgentOutcome } from '../services/transcripts.js';
 import { SYSTEM_PROMPT } from './system-prompt.js';
+import { tools, executeTool } from './tools.js';
 
-// Initialize research service if API key available
-if (process.env.TAVILY_API_KEY) {
-  initResearchService(process.env.TAVILY_API_KEY);
-}
-
-// Tool definitions for the agent
-const tools: Anthropic.Tool[] = [
-  {
-    name: 'list_interviews',
-    description: 'List all interview documents from Google Drive. Returns id, title, vendor name, type, and date for each.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
-  },
-  {
-    name: 'read_interview',
-    description: 'Read the full content of a specific interview document by its ID.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        documentId: { type: 'string', description: 'The Google Docs document ID' },
-      },
-      required: ['documentId'],
-    },
-  },
-  {
-    name: 'list_articles',
-    description: 'List existing articles on the Ghost blog. Returns title, slug, and publish date.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        limit: { type: 'number', description: 'Max articles to return (default 20)' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'search_articles',
-    description: 'Search existing articles by title or slug to check for duplicates.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: { type: 'string', description: 'Search query' },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'check_duplicate',
-    description: 'Check if an article with similar title already exists. Returns exact match status and similar articles.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        title: { type: 'string', description: 'The proposed article title' },
-      },
-      required: ['title'],
-    },
-  },
-  {
-    name: 'create_draft',
-    description: 'Create a draft article in Ghost. Provide the complete HTML content ready to publish.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        title: { type: 'string', description: 'Article title' },
-        html: { type: 'string', description: 'Complete HTML content' },
-        excerpt: { type: 'string', description: 'Article excerpt/summary' },
-        metaDescription: { type: 'string', description: 'SEO meta description' },
-        tags: { type: 'array', items: { type: 'string' }, description: 'Article tags' },
-      },
-      required: ['title', 'html'],
-    },
-  },
-  {
-    name: 'web_search',
-    description: 'Search the web for information on a topic. Useful for researching wedding industry trends, statistics, or background information for articles.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: { type: 'string', description: 'Search query' },
-        maxResults: { type: 'number', description: 'Maximum results to return (default 5)' },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'research_topic',
-    description: 'Research a topic and get a formatted summary of findings. Good for gathering background info before writing an article.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        topic: { type: 'string', description: 'Topic to research' },
-      },
-      required: ['topic'],
-    },
-  },
-  {
-    name: 'search_interviews',
-    description: 'Search ALL interview documents for a keyword or topic. Returns matching snippets from every interview that mentions the search term, with vendor names and document IDs. Use this to find all relevant quotes across interviews before writing an article.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: { type: 'string', description: 'Keyword or topic to search for across all interviews (e.g. "AI", "pricing", "social media")' },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'list_ideas',
-    description: 'List article ideas from the ideas folder in Google Drive. Each idea doc contains a topic/request like "Piece on AI - look for interview quotes".',
-    input_schema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
-  },
-  {
-    name: 'read_idea',
-    description: 'Read the full content of an idea document by its ID. The content contains instructions for what article to create.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        documentId: { type: 'string', description: 'The Google Docs document ID' },
-      },
-      required: ['documentId'],
-    },
-  },
-];
-
-// Tool execution
-async function executeTool(name: string, input: Record<string, unknown>, folderId: string, ideasFolderId?: string): Promise<string> {
-  switch (name) {
-    case 'list_interviews': {
-      const interviews = await listInterviews(folderId);
-      const result = interviews.map(i => ({
-        id: i.id,
-        title: i.title,
-        vendorName: i.vendorName,
-        vendorType: i.vendorType,
-        createdAt: i.createdAt?.toLocaleDateString(),
-      }));
-      return JSON.stringify(result, null, 2);
-    }
-
-    case 'read_interview': {
-      const interview = await getInterview(input.documentId as string);
-      return JSON.stringify({
-        id: interview.id,
-        title: interview.title,
-        vendorName: interview.vendorName,
-        vendorType: interview.vendorType,
-        content: interview.content,
-      }, null, 2);
-    }
-
-    case 'list_articles': {
-      const articles = await getExistingArticles();
-      const limit = (input.limit as number) || 20;
-      const result = articles.slice(0, limit).map(a => ({
-        title: a.title,
-        slug: a.slug,
-        publishedAt: a.publishedAt,
-      }));
-      return JSON.stringify(result, null, 2);
-    }
-
-    case 'search_articles': {
-      const articles = await searchExistingArticles(input.query as string);
-      const result = articles.map(a => ({
-        title: a.title,
-        slug: a.slug,
-        publishedAt: a.publishedAt,
-      }));
-      return JSON.stringify(result, null, 2);
-    }
-
-    case 'check_duplicate': {
-      const check = await checkArticleExists(input.title as string);
-      return JSON.stringify({
-        exactMatch: check.exactMatch,
-        similarArticles: check.similarArticles.slice(0, 5).map(a => a.title),
-      }, null, 2);
-    }
-
-    case 'create_draft': {
-      const slug = generateSlug(input.title as string);
-      const metaTitle = generateMetaTitle(input.title as string);
-      const sanitizedHtml = sanitizeBlockedLinks(input.html as string);
-
-      const result = await createDraftArticle({
-        title: input.title as string,
-        slug,
-        html: sanitizedHtml,
-        excerpt: input.excerpt as string | undefined,
-        metaTitle,
-        metaDescription: input.metaDescription as string | undefined,
-        tags: input.tags as string[] | undefined,
-        status: 'draft',
-      });
-
-      return JSON.stringify({
-        success: true,
-        id: result.id,
-        url: result.url,
-        message: `Draft created: "${input.title}"`,
-      }, null, 2);
-    }
-
-    case 'web_search': {
-      const results = await searchWeb(
-        input.query as string,
-        (input.maxResults as number) || 5
-      );
-      return JSON.stringify(results, null, 2);
-    }
-
-    case 'research_topic': {
-      const research = await researchTopic(input.topic as string);
-      return research;
-    }
-
-    case 'search_interviews': {
-      const query = (input.query as string).toLowerCase();
-      const interviews = await getAllInterviewsWithContent(folderId);
-      const matches: Array<{ vendorName: string; documentId: string; snippets: string[] }> = [];
-
-      for (const interview of interviews) {
-        const contentLower = interview.content.toLowerCase();
-        if (!contentLower.includes(query)) continue;
+const MAX_ITERATIONS = 15;
 
-        // Extract snippets around each match (surrounding context)
-        const snippets: string[] = [];
-        const lines = interview.content.split('\n');
-        for (let i = 0; i < lines.length; i++) {
-          if (lines[i].toLowerCase().includes(query)) {
-            const start = Math.max(0, i - 1);
-            const end = Math.min(lines.length, i + 3);
-            snippets.push(lines.slice(start, end).join('\n').trim());
-          }
-        }
-
-        // Deduplicate overlapping snippets and limit
-        const uniqueSnippets = [...new Set(snippets)].slice(0, 5);
-
-        matches.push({
-          vendorName: interview.vendorName || interview.title,
-          documentId: interview.id,
-          snippets: uniqueSnippets,
-        });
-      }
-
-      if (matches.length === 0) {
-        return JSON.stringify({ message: `No interviews mention "${input.query}". Try broader search terms.`, matches: [] });
-      }
-
-      return JSON.stringify({
-        message: `Found ${matches.length} interview(s) mentioning "${input.query}"`,
-        matches,
-      }, null, 2);
-    }
-
-    case 'list_ideas': {
-      const effectiveIdeasFolderId = ideasFolderId || process.env.GOOGLE_IDEAS_FOLDER_ID;
-      if (!effectiveIdeasFolderId) {
-        return JSON.stringify({ error: 'Ideas folder not configured' });
-      }
-      const ideas = await listArticleIdeas(effectiveIdeasFolderId);
-      const result = ideas.map(i => ({
-        id: i.id,
-        title: i.title,
-        createdAt: i.createdAt?.toLocaleDateString(),
-      }));
-      return JSON.stringify(result, null, 2);
-    }
+// Progress callbacks, so callers can show what the agent is doing as it happens
+export interface AgentHooks {
+  onStart?: (transcriptId: string) => void;
+  // Text the model writes alongside its tool calls (the final answer is returned instead)
+  onText?: (text: string) => void;
+  onToolCall?: (name: string, input: Record<string, unknown>) => void;
+  onToolResult?: (name: string, result: string, isError: boolean) => void;
+}
 
-    case 'read_idea': {
-      const idea = await getIdea(input.documentId as string);
-      return JSON.stringify({
-        id: idea.id,
-        title: idea.title,
-        content: idea.content,
-      }, null, 2);
-    }
+export interface AgentLoopOptions {
+  folderId: string;
+  ideasFolderId?: string;
+  runId: string;
+  requireApproval?: boolean;
+  system?: string;
+  task?: ModelTask;
+  hooks?: AgentHooks;
+}
 
-    default:
-      return JSON.stringify({ error: `Unknown tool: ${name}` });
-  }
+function textOf(content: Anthropic.ContentBlock[]): string {
+  return content.filter(b => b.type === 'text').map(b => (b as Anthropic.TextBlock).text).join('\n');
 }
 
 /**
- * Run the content agent with a user request.
- * The agent will autonomously use tools to complete the task.
+ * Run the tool loop on a conversation until the model stops calling tools, and
+ * return its final text. `messages` is extended in place with every turn, ending
+ * on the assistant's reply, so a conversation can carry on from it.
+ * Every turn and tool call is written to a transcript (`runs show <id>`).
  */
-export async function runContentAgent(request: string, folderId: string, ideasFolderId?: string): Promise<string> {
-  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+export async function runAgentLoop(
+  messages: Anthropic.MessageParam[],
+  options: AgentLoopOptions
+): Promise<string> {
+  const { folderId, ideasFolderId, runId, hooks = {} } = options;
+  const requireApproval = options.requireApproval ?? isApprovalRequired();
+  const system = options.system || SYSTEM_PROMPT;
+  const task = options.task || 'agent';
+  const client = getAIClient();
+
+  const lastMessage = messages[messages.length - 1];
+  const request = typeof lastMessage?.content === 'string' ? lastMessage.content : '';
+
+  // A scheduler run or chat can start several agent loops, each with its own transcript
+  const transcript = startTranscript(newRunId('agent'), runId, request, requireApproval);
+  hooks.onStart?.(transcript.transcriptId);
 
-  const messages: Anthropic.MessageParam[] = [
-    { role: 'user', content: request },
-  ];
+  let iterations = 0;
+  let budgetReached = false;
+
+  try {
+    let requestStart = Date.now();
+    let response = await createMessage(client, task, { system, tools, messages });
+    logAssistantTurn(transcript, iterations, response, Date.now() - requestStart);
+
+    // Agentic loop - keep going until no more tool calls
+    while (response.stop_reason === 'tool_use' && iterations < MAX_ITERATIONS) {
+      if (isBudgetExceeded()) {
+        budgetReached = true;
+        break;
+      }
 
-  let response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8192,
-    system: SYSTEM_PROMPT,
-    tools,
-    messages,
-  });
+      iterations++;
+      const assistantContent = response.content;
+      messages.push({ role: 'assistant', content: assistantContent });
 
-  // Agentic loop - keep going until no more tool calls
-  let iterations = 0;
-  const maxIterations = 15;
+      const text = textOf(assistantContent);
+      if (text) hooks.onText?.(text);
 
-  while (response.stop_reason === 'tool_use' && iterations < maxIterations) {
-    iterations++;
-    const assistantContent = response.content;
-    messages.push({ role: 'assistant', content: assistantContent });
+      const toolResults: Anthropic.ToolResultBlockParam[] = [];
 
-    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+      for (const block of assistantContent) {
+        if (block.type === 'tool_use') {
+          const input = block.input as Record<string, unknown>;
+          hooks.onToolCall?.(block.name, input);
+          const toolStart = Date.now();
+
+          let result: string;
+          let isError = false;
+          try {
+            result = await executeTool(block.name, input, { folderId, ideasFolderId, runId, requireApproval });
+          } catch (error) {
+            result = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            isError = true;
+          }
 
-    for (const block of assistantContent) {
-      if (block.type === 'tool_use') {
-        console.error(`[Agent] Executing tool: ${block.name}`);
-        try {
-          const result = await executeTool(block.name, block.input as Record<string, unknown>, folderId, ideasFolderId);
           toolResults.push({
             type: 'tool_result',
             tool_use_id: block.id,
             content: result,
+            ...(isError ? { is_error: true } : {}),
           });
-        } catch (error) {
-          console.error(`[Agent] Tool error: ${error}`);
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: block.id,
-            content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            is_error: true,
-          });
+          logToolCall(transcript, iterations, { name: block.name, input, output: result, isError, durationMs: Date.now() - toolStart });
+          hooks.onToolResult?.(block.name, result, isError);
         }
       }
+
+      messages.push({ role: 'user', content: toolResults });
+
+      requestStart = Date.now();
+      response = await createMessage(client, task, { system, tools, messages });
+      logAssistantTurn(transcript, iterations, response, Date.now() - requestStart);
     }
 
-    messages.push({ role: 'user', content: toolResults });
+    const finalResponse = textOf(response.content);
 
-    response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
-      system: SYSTEM_PROMPT,
-      tools,
-      messages,
+    // A loop cut short ends on unanswered tool calls, which can't be sent back; keep only its text
+    messages.push({
+      role: 'assistant',
+      content: response.stop_reason === 'tool_use' ? finalResponse || '(Stopped before finishing)' : response.content,
     });
-  }
 
-  // Extract final text response
-  const textBlocks = response.content.filter(b => b.type === 'text');
-  const finalResponse = textBlocks.map(b => (b as Anthropic.TextBlock).text).join('\n');
+    const outcome: AgentOutcome = budgetReached ? 'budget_reached'
+      : iterations >= MAX_ITERATIONS ? 'iteration_limit'
+      : 'completed';
+    transcript.log({ type: 'end', outcome, iterations, durationMs: Date.now() - transcript.startedAt, finalText: finalResponse });
+
+    if (budgetReached) {
+      return `${finalResponse}\n\n(Note: Agent stopped because the usage budget for this run was reached)`;
+    }
 
-  if (iterations >= maxIterations) {
-    return `${finalResponse}\n\n(Note: Agent reached iteration limit)`;
+    if (iterations >= MAX_ITERATIONS) {
+      return `${finalResponse}\n\n(Note: Agent reached iteration limit)`;
+    }
+
+    return finalResponse;
+  } catch (error) {
+    transcript.log({
+      type: 'end',
+      outcome: 'error',
+      iterations,
+      durationMs: Date.now() - transcript.startedAt,
+      finalText: '',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
   }
+}
 
-  return finalResponse;
+/**
+ * Run the content agent with a user request.
+ * The agent will autonomously use tools to complete the task. With approval
+ * required (opt-in with REQUIRE_APPROVAL=true), drafts are queued for `review`.
+ */
+export async function runContentAgent(
+  request: string,
+  folderId: string,
+  ideasFolderId?: string,
+  options: { runId?: string; requireApproval?: boolean } = {}
+): Promise<string> {
+  return runAgentLoop([{ role: 'user', content: request }], {
+    folderId,
+    ideasFolderId,
+    runId: options.runId || newRunId('agent'),
+    requireApproval: options.requireApproval,
+    hooks: {
+      onStart: transcriptId => console.error(`[Agent] Transcript: ${transcriptId}`),
+      onToolCall: name => console.error(`[Agent] Executing tool: ${name}`),
+      onToolResult: (name, result, isError) => {
+        if (isError) console.error(`[Agent] Tool error: ${result}`);
+      },
+    },
+  });
 }
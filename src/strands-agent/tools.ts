@@ -0,0 +1,591 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { listInterviews, getInterview, listArticleIdeas, getIdea } from '../services/google-docs.js';
+import { createDraftArticle, getArticle, updateDraftArticle } from '../services/ghost.js';
+import { getIndexedArticles, searchArticles } from '../services/article-index.js';
+import { checkForDuplicates } from '../services/duplicates.js';
+import { searchInterviews } from '../services/interview-index.js';
+import { applyCompetitorPolicy, isBlockedDomain, type CompetitorMention } from '../utils/blocklist.js';
+import { generateMetaTitle, generateSlug, truncateText } from '../utils/metadata.js';
+import { searchWeb, researchTopic, initResearchService } from '../services/research.js';
+import { fetchResearchSource } from '../services/source-store.js';
+import { checkClaims, gatherEvidence, getFactCheckMode, type FactCheckReport } from '../services/fact-check.js';
+import { checkQuotes, getQuoteCheckMode, type QuoteCheckReport } from '../services/quote-check.js';
+import { attachInterviewImages } from '../services/images.js';
+import { findRecordByPostId, getSourceRecord, recordSource } from '../services/state-store.js';
+import { findPendingApproval, queueApproval } from '../services/approvals.js';
+import { snapshotSource } from '../services/source-changes.js';
+import type { Article, Interview } from '../types/index.js';
+
+// Initialize research service if API key available
+if (process.env.TAVILY_API_KEY) {
+  initResearchService(process.env.TAVILY_API_KEY);
+}
+
+// Page text returned by read_source, which is plenty for quoting without flooding the context
+const MAX_SOURCE_TEXT_LENGTH = 12000;
+
+// Tool definitions, shared by the content agent and the MCP server
+export const tools: Anthropic.Tool[] = [
+  {
+    name: 'list_interviews',
+    description: 'List all interview documents from Google Drive. Returns id, title, vendor name, type, and date for each.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'read_interview',
+    description: 'Read the full content of a specific interview document by its ID.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        documentId: { type: 'string', description: 'The Google Docs document ID' },
+      },
+      required: ['documentId'],
+    },
+  },
+  {
+    name: 'list_articles',
+    description: 'List existing articles on the Ghost blog (drafts, scheduled and published), newest first. Returns id, title, slug, status, tags and publish date.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        limit: { type: 'number', description: 'Max articles to return (default 20)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'search_articles',
+    description: 'Search existing articles for a word or phrase. Articles with it in the title, slug or tags come first, then those that mention it in the body.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'check_duplicate',
+    description: 'Check whether an existing article (draft, scheduled or published) already covers this one, comparing titles and body text. Returns whether it is a duplicate and the closest articles with similarity scores and the reasons they matched.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        title: { type: 'string', description: 'The proposed article title' },
+        content: { type: 'string', description: 'Optional draft text or a short summary of the article, for a more accurate comparison' },
+        interviewId: { type: 'string', description: 'Google Docs ID of the interview the article would be written from, if any. If it is a duplicate, the interview is recorded as already covered so it is not picked up again.' },
+        ideaId: { type: 'string', description: 'Google Docs ID of the idea the article would be written from, if any. If it is a duplicate, the idea is recorded as already covered so it is not picked up again.' },
+      },
+      required: ['title'],
+    },
+  },
+  {
+    name: 'create_draft',
+    description: 'Create a draft article in Ghost. Provide the complete HTML content ready to publish. Every statistic and cited finding is checked against the source document and the pages the article links to; unsupported claims are listed in the result (or, if the editors have set it up that way, the draft is refused until they are fixed). Quotes are checked word for word against the interviews, with the exact text to use for any that do not match.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        title: { type: 'string', description: 'Article title' },
+        html: { type: 'string', description: 'Complete HTML content' },
+        excerpt: { type: 'string', description: 'Article excerpt/summary' },
+        metaDescription: { type: 'string', description: 'SEO meta description' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Article tags' },
+        interviewId: { type: 'string', description: 'Google Docs ID of the source interview, if any. Its photos replace the image placeholders and the first becomes the feature image.' },
+        ideaId: { type: 'string', description: 'Google Docs ID of the source idea, if the article was written from one.' },
+        otherSourceIds: { type: 'array', items: { type: 'string' }, description: 'Google Docs IDs of any other interviews or ideas the article quotes or takes facts from (e.g. the vendors in a theme roundup), so the fact and quote checks can find them.' },
+      },
+      required: ['title', 'html'],
+    },
+  },
+  {
+    name: 'read_article',
+    description: 'Read an existing Ghost post by its ID, including its current HTML, status, tags and excerpt. Use before revising a draft.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        postId: { type: 'string', description: 'The Ghost post ID' },
+      },
+      required: ['postId'],
+    },
+  },
+  {
+    name: 'update_draft',
+    description: 'Revise an existing draft in Ghost in place instead of creating a new post. Only the fields provided are changed. Fails if the post is already published. New HTML is fact-checked and quote-checked the same way as create_draft.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        postId: { type: 'string', description: 'The Ghost post ID of the draft to update' },
+        title: { type: 'string', description: 'New article title' },
+        html: { type: 'string', description: 'Complete replacement HTML content' },
+        excerpt: { type: 'string', description: 'Article excerpt/summary' },
+        metaDescription: { type: 'string', description: 'SEO meta description' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Replacement article tags' },
+        otherSourceIds: { type: 'array', items: { type: 'string' }, description: 'Google Docs IDs of any other interviews or ideas the article quotes or takes facts from (e.g. the vendors in a theme roundup), so the fact and quote checks can find them.' },
+      },
+      required: ['postId'],
+    },
+  },
+  {
+    name: 'web_search',
+    description: 'Search the web for information on a topic. Useful for researching wedding industry trends, statistics, or background information for articles.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        maxResults: { type: 'number', description: 'Maximum results to return (default 5)' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'research_topic',
+    description: 'Research a topic: searches the web, reads the top pages in full and returns their most relevant passages word for word, with title, site, author and publish date for citing. Good for gathering background info before writing an article.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        topic: { type: 'string', description: 'Topic to research' },
+      },
+      required: ['topic'],
+    },
+  },
+  {
+    name: 'read_source',
+    description: 'Read the full text of a web page (e.g. a web_search result) before quoting or citing it. Returns the title, site, author, publish date and the main text paragraphs.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        url: { type: 'string', description: 'URL of the page to read' },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'search_interviews',
+    description: 'Search ALL interview documents for a keyword or topic. Returns the best-matching snippets from every interview that mentions the search terms, ranked by relevance, with vendor names and document IDs. Use this to find all relevant quotes across interviews before writing an article.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'Words to search for across all interviews, e.g. AI, pricing deposits, wedding websites. Word endings are ignored (pricing also finds prices). Wrap words in double quotes to require them as an exact phrase, e.g. "social media" reels' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'list_ideas',
+    description: 'List article ideas from the ideas folder in Google Drive. Each idea doc contains a topic/request like "Piece on AI - look for interview quotes".',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'read_idea',
+    description: 'Read the full content of an idea document by its ID. The content contains instructions for what article to create.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        documentId: { type: 'string', description: 'The Google Docs document ID' },
+      },
+      required: ['documentId'],
+    },
+  },
+];
+
+export interface ToolContext {
+  folderId: string;
+  ideasFolderId?: string;
+  // Recorded against any source a draft is created for
+  runId: string;
+  // Queue create_draft and update_draft for an editor instead of changing Ghost
+  requireApproval?: boolean;
+  // The input was approved by an editor, so it isn't fact-checked again
+  reviewed?: boolean;
+}
+
+interface DraftChecks {
+  facts: FactCheckReport | null;
+  quotes: QuoteCheckReport | null;
+}
+
+// Claims the source docs and linked pages don't support, and quotes that don't match the interviews
+async function checkDraft(html: string, sourceIds: Array<string | undefined>, context: ToolContext): Promise<DraftChecks> {
+  if (context.reviewed) return { facts: null, quotes: null };
+
+  const documentIds = [...new Set(sourceIds.filter((id): id is string => Boolean(id)))];
+  const interviews = (await Promise.all(documentIds.map(id => getInterview(id).catch(() => null))))
+    .filter((interview): interview is Interview => interview !== null);
+
+  return {
+    facts: getFactCheckMode() === 'off' ? null : checkClaims(html, await gatherEvidence(html, documentIds)),
+    quotes: interviews.length > 0 && getQuoteCheckMode() !== 'off' ? checkQuotes(html, interviews) : null,
+  };
+}
+
+// Draft fields readers see, which go through the competitor policy
+const DRAFT_TEXT_FIELDS = ['title', 'html', 'excerpt', 'metaDescription'];
+
+// The draft with competitor links removed and mentions rewritten (per config/blocklist.json)
+function applyDraftPolicy(input: Record<string, unknown>): { draft: Record<string, unknown>; mentions: CompetitorMention[] } {
+  const draft = { ...input };
+  const mentions: CompetitorMention[] = [];
+
+  for (const field of DRAFT_TEXT_FIELDS) {
+    if (typeof draft[field] !== 'string') continue;
+    const result = applyCompetitorPolicy(draft[field] as string);
+    draft[field] = result.content;
+    mentions.push(...result.mentions);
+  }
+
+  return { draft, mentions };
+}
+
+// Problems found, for the tool result (undefined fields are left out of the JSON)
+function checkFindings(checks: DraftChecks) {
+  return {
+    unsupportedClaims: checks.facts?.unsupported.length
+      ? checks.facts.unsupported.map(check => ({ claim: check.claim, unsupportedFigures: check.unsupportedFigures }))
+      : undefined,
+    quoteProblems: checks.quotes?.problems.length
+      ? checks.quotes.problems.map(problem => ({
+        quote: problem.quote,
+        problem: problem.status,
+        attributedTo: problem.attributedTo,
+        saidBy: problem.speaker,
+        exactText: problem.sourceText,
+      }))
+      : undefined,
+  };
+}
+
+// The reply when the checks block a draft, or null to go ahead
+function checkRefusal(checks: DraftChecks, action: string): string | null {
+  // Each check only refuses drafts when its own setting says block
+  const claims = getFactCheckMode() === 'block' ? checks.facts?.unsupported.length || 0 : 0;
+  const quotes = getQuoteCheckMode() === 'block' ? checks.quotes?.problems.length || 0 : 0;
+  if (claims === 0 && quotes === 0) return null;
+
+  const problems = [
+    claims > 0 && `${claims} of ${checks.facts!.checked} claims are not supported by the source document or the pages the article links to. Correct each one to match a source, link the page it comes from (read it with read_source first), or remove it.`,
+    quotes > 0 && `${quotes} of ${checks.quotes!.checked} interview quotes don't match what was said. Use the exactText given (or quote less), credit each quote to whoever said it, and never put quotation marks around a paraphrase.`,
+  ].filter(Boolean);
+
+  return JSON.stringify({
+    success: false,
+    message: `${action}: ${problems.join(' ')} Then try again.`,
+    ...checkFindings(checks),
+  }, null, 2);
+}
+
+// Tool execution
+export async function executeTool(name: string, input: Record<string, unknown>, context: ToolContext): Promise<string> {
+  const { folderId, ideasFolderId, runId, requireApproval } = context;
+
+  switch (name) {
+    case 'list_interviews': {
+      const interviews = await listInterviews(folderId);
+      const result = interviews.map(i => ({
+        id: i.id,
+        title: i.title,
+        vendorName: i.vendorName,
+        vendorType: i.vendorType,
+        createdAt: i.createdAt?.toLocaleDateString(),
+      }));
+      return JSON.stringify(result, null, 2);
+    }
+
+    case 'read_interview': {
+      const interview = await getInterview(input.documentId as string);
+      return JSON.stringify({
+        id: interview.id,
+        title: interview.title,
+        vendorName: interview.vendorName,
+        vendorType: interview.vendorType,
+        businessName: interview.businessName,
+        qa: interview.qa,
+        content: interview.qa && interview.qa.length > 0 ? undefined : interview.content,
+      }, null, 2);
+    }
+
+    case 'list_articles': {
+      const articles = await getIndexedArticles();
+      const limit = (input.limit as number) || 20;
+      const result = articles.slice(0, limit).map(a => ({
+        id: a.id,
+        title: a.title,
+        slug: a.slug,
+        status: a.status,
+        tags: a.tags,
+        publishedAt: a.publishedAt,
+      }));
+      return JSON.stringify(result, null, 2);
+    }
+
+    case 'search_articles': {
+      const articles = await searchArticles(input.query as string);
+      const result = articles.slice(0, 20).map(a => ({
+        id: a.id,
+        title: a.title,
+        slug: a.slug,
+        status: a.status,
+        excerpt: a.excerpt,
+        publishedAt: a.publishedAt,
+      }));
+      return JSON.stringify(result, null, 2);
+    }
+
+    case 'check_duplicate': {
+      const check = await checkForDuplicates(input.title as string, input.content as string | undefined);
+      const sourceId = (input.interviewId || input.ideaId) as string | undefined;
+      const sourceRecord = sourceId ? getSourceRecord(sourceId) : undefined;
+
+      // A covered source is skipped rather than retried; a post or pending draft of its own takes precedence
+      if (check.isDuplicate && sourceId && (!sourceRecord || sourceRecord.status === 'failed')) {
+        const match = check.matches[0].article;
+        recordSource({
+          sourceId,
+          sourceType: input.interviewId ? 'interview' : 'idea',
+          sourceTitle: sourceRecord?.sourceTitle || (input.title as string),
+          status: 'skipped',
+          postId: match.id,
+          runId,
+          note: `Already covered by "${match.title}"`,
+        });
+      }
+
+      return JSON.stringify({
+        isDuplicate: check.isDuplicate,
+        matches: check.matches.map(match => ({
+          id: match.article.id,
+          title: match.article.title,
+          status: match.article.status,
+          score: Math.round(match.score * 100) / 100,
+          explanation: match.explanation,
+        })),
+      }, null, 2);
+    }
+
+    case 'create_draft': {
+      const { draft, mentions } = applyDraftPolicy(input);
+      const sourceId = (input.interviewId || input.ideaId) as string | undefined;
+      const sourceRecord = sourceId ? getSourceRecord(sourceId) : undefined;
+
+      // One post per source - revisions go through update_draft
+      if (sourceRecord?.status === 'generated' && sourceRecord.postId) {
+        return JSON.stringify({
+          success: false,
+          postId: sourceRecord.postId,
+          url: sourceRecord.postUrl,
+          message: `This source already has a post (ID ${sourceRecord.postId}). Use update_draft to revise it instead.`,
+        }, null, 2);
+      }
+
+      const checks = await checkDraft(draft.html as string, [sourceId, ...(input.otherSourceIds as string[] || [])], context);
+      const refusal = checkRefusal(checks, 'Draft not created');
+      if (refusal) return refusal;
+
+      if (requireApproval) {
+        const pending = sourceId ? findPendingApproval(sourceId) : undefined;
+        if (pending) {
+          return JSON.stringify({
+            success: false,
+            approvalId: pending.id,
+            message: `A draft for this source is already waiting for editor approval (${pending.id}).`,
+          }, null, 2);
+        }
+
+        const approval = queueApproval('create_draft', draft, { sourceId, runId });
+        if (sourceId) {
+          recordSource({
+            sourceId,
+            sourceType: input.interviewId ? 'interview' : 'idea',
+            sourceTitle: sourceRecord?.sourceTitle || (draft.title as string),
+            status: 'pending',
+            runId,
+            note: `Waiting for approval (${approval.id})`,
+          });
+        }
+
+        return JSON.stringify({
+          success: true,
+          queued: true,
+          approvalId: approval.id,
+          message: `Draft "${draft.title}" queued for editor approval. It will be created in Ghost once approved - do not create it again.`,
+          ...checkFindings(checks),
+          competitorMentions: mentions.length > 0 ? mentions : undefined,
+        }, null, 2);
+      }
+
+      const slug = generateSlug(draft.title as string);
+      const metaTitle = generateMetaTitle(draft.title as string);
+
+      let article: Article = {
+        title: draft.title as string,
+        slug,
+        html: draft.html as string,
+        excerpt: draft.excerpt as string | undefined,
+        metaTitle,
+        metaDescription: draft.metaDescription as string | undefined,
+        tags: input.tags as string[] | undefined,
+        status: 'draft',
+      };
+
+      if (input.interviewId) {
+        article = await attachInterviewImages(article, input.interviewId as string);
+      }
+
+      const result = await createDraftArticle(article);
+
+      if (sourceId) {
+        recordSource({
+          sourceId,
+          sourceType: input.interviewId ? 'interview' : 'idea',
+          sourceTitle: sourceRecord?.sourceTitle || article.title,
+          status: 'generated',
+          postId: result.id,
+          postUrl: result.url,
+          runId,
+        });
+        await snapshotSource(sourceId);
+      }
+
+      return JSON.stringify({
+        success: true,
+        id: result.id,
+        url: result.url,
+        message: `Draft created: "${draft.title}"`,
+        ...checkFindings(checks),
+        competitorMentions: mentions.length > 0 ? mentions : undefined,
+      }, null, 2);
+    }
+
+    case 'read_article': {
+      const article = await getArticle(input.postId as string);
+      return JSON.stringify(article, null, 2);
+    }
+
+    case 'update_draft': {
+      const { draft, mentions } = applyDraftPolicy(input);
+      const title = draft.title as string | undefined;
+      const sourceId = findRecordByPostId(input.postId as string)?.sourceId;
+
+      const checks = draft.html
+        ? await checkDraft(draft.html as string, [sourceId, ...(input.otherSourceIds as string[] || [])], context)
+        : { facts: null, quotes: null };
+      const refusal = checkRefusal(checks, 'Draft not updated');
+      if (refusal) return refusal;
+
+      if (requireApproval) {
+        const approval = queueApproval('update_draft', draft, { sourceId, runId });
+
+        return JSON.stringify({
+          success: true,
+          queued: true,
+          approvalId: approval.id,
+          message: `Update to post ${input.postId} queued for editor approval. It will be applied once approved.`,
+          ...checkFindings(checks),
+          competitorMentions: mentions.length > 0 ? mentions : undefined,
+        }, null, 2);
+      }
+
+      const result = await updateDraftArticle(input.postId as string, {
+        title,
+        metaTitle: title ? generateMetaTitle(title) : undefined,
+        html: draft.html as string | undefined,
+        excerpt: draft.excerpt as string | undefined,
+        metaDescription: draft.metaDescription as string | undefined,
+        tags: input.tags as string[] | undefined,
+      });
+
+      return JSON.stringify({
+        success: true,
+        id: result.id,
+        url: result.url,
+        message: `Draft updated${title ? `: "${title}"` : ''}`,
+        ...checkFindings(checks),
+        competitorMentions: mentions.length > 0 ? mentions : undefined,
+      }, null, 2);
+    }
+
+    case 'web_search': {
+      const results = await searchWeb(
+        input.query as string,
+        (input.maxResults as number) || 5
+      );
+      return JSON.stringify(results, null, 2);
+    }
+
+    case 'research_topic': {
+      const research = await researchTopic(input.topic as string);
+      return research;
+    }
+
+    case 'read_source': {
+      const url = input.url as string;
+      if (isBlockedDomain(url)) {
+        return JSON.stringify({ error: 'This is a competitor site. Do not read, quote or cite it.' });
+      }
+
+      const source = await fetchResearchSource(url);
+      return JSON.stringify({
+        url: source.url,
+        title: source.title,
+        site: source.site,
+        author: source.author,
+        publishedAt: source.publishedAt,
+        text: truncateText(source.paragraphs.join('\n\n'), MAX_SOURCE_TEXT_LENGTH),
+      }, null, 2);
+    }
+
+    case 'search_interviews': {
+      const results = await searchInterviews(folderId, input.query as string, { limit: 20, snippetsPerVendor: 5 });
+
+      if (results.length === 0) {
+        return JSON.stringify({ message: `No interviews mention "${input.query}". Try broader search terms.`, matches: [] });
+      }
+
+      const matches = results.map(result => ({
+        vendorName: result.vendorName,
+        documentId: result.documentId,
+        score: Math.round(result.score * 100) / 100,
+        snippets: result.snippets.map(snippet => snippet.question
+          ? `Q: ${snippet.question}\nA (${snippet.speaker || result.vendorName}): ${truncateText(snippet.text, 800)}`
+          : truncateText(snippet.text, 800)),
+      }));
+
+      return JSON.stringify({
+        message: `Found ${matches.length} interview(s) mentioning "${input.query}", best match first`,
+        matches,
+      }, null, 2);
+    }
+
+    case 'list_ideas': {
+      const effectiveIdeasFolderId = ideasFolderId || process.env.GOOGLE_IDEAS_FOLDER_ID;
+      if (!effectiveIdeasFolderId) {
+        return JSON.stringify({ error: 'Ideas folder not configured' });
+      }
+      const ideas = await listArticleIdeas(effectiveIdeasFolderId);
+      const result = ideas.map(i => ({
+        id: i.id,
+        title: i.title,
+        createdAt: i.createdAt?.toLocaleDateString(),
+      }));
+      return JSON.stringify(result, null, 2);
+    }
+
+    case 'read_idea': {
+      const idea = await getIdea(input.documentId as string);
+      return JSON.stringify({
+        id: idea.id,
+        title: idea.title,
+        content: idea.content,
+      }, null, 2);
+    }
+
+    default:
+      return JSON.stringify({ error: `Unknown tool: ${name}` });
+  }
+}
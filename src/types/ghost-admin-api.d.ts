@@ -5,17 +5,20 @@ declare module '@tryghost/admin-api' {
     version: string;
   }
 
-  interface Post {
+  export interface Post {
     id: string;
     title: string;
     slug: string;
     html?: string;
     url: string;
     published_at?: string;
+    updated_at?: string;
     custom_excerpt?: string;
     meta_title?: string;
     meta_description?: string;
     feature_image?: string;
+    feature_image_alt?: string;
+    feature_image_caption?: string;
     tags?: Array<{ name: string }>;
     status: string;
   }
@@ -27,13 +30,22 @@ declare module '@tryghost/admin-api' {
       fields?: string;
       filter?: string;
       order?: string;
+      include?: string;
+      formats?: string;
     }): Promise<Post[] & { meta?: { pagination?: { next: number | null } } }>;
+    read(data: { id?: string; slug?: string }, options?: { formats?: string }): Promise<Post>;
     add(data: any, options?: { source?: string }): Promise<Post>;
+    edit(data: any, options?: { source?: string }): Promise<Post>;
+  }
+
+  interface ImagesAPI {
+    upload(data: { file: string; ref?: string }): Promise<{ url: string; ref?: string }>;
   }
 
   class GhostAdminAPI {
     constructor(options: GhostAdminAPIOptions);
     posts: PostsAPI;
+    images: ImagesAPI;
   }
 
   export default GhostAdminAPI;
@@ -20,7 +20,10 @@ export interface Article {
   metaTitle?: string;
   metaDescription?: string;
   featureImage?: string;
-  status: 'draft' | 'published';
+  featureImageAlt?: string;
+  featureImageCaption?: string;
+  status: 'draft' | 'scheduled' | 'published';
+  publishedAt?: string;
 }
 
 export interface ArticleGenerationResult {
@@ -31,13 +34,30 @@ export interface ArticleGenerationResult {
   excerpt: string;
 }
 
+export interface InterviewQA {
+  question: string;
+  answer: string;
+  speaker?: string;
+}
+
 export interface Interview {
   id: string;
   title: string;
   content: string;
+  qa?: InterviewQA[];
   vendorName?: string;
   vendorType?: string;
+  businessName?: string;
   createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface SourceImage {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  alt?: string;
+  caption?: string;
 }
 
 export interface ArticleIdea {
@@ -45,6 +65,7 @@ export interface ArticleIdea {
   title: string;
   content: string;
   createdAt?: Date;
+  modifiedAt?: Date;
 }
 
 export interface ExistingArticle {
@@ -52,6 +73,28 @@ export interface ExistingArticle {
   title: string;
   slug: string;
   publishedAt?: string;
+  status?: string;
+  tags?: string[];
+  updatedAt?: string;
+  excerpt?: string;
+}
+
+export interface GhostArticle {
+  id: string;
+  title: string;
+  slug: string;
+  html: string;
+  url: string;
+  status: string;
+  excerpt?: string;
+  tags: string[];
+  metaTitle?: string;
+  metaDescription?: string;
+  featureImage?: string;
+  featureImageAlt?: string;
+  featureImageCaption?: string;
+  publishedAt?: string;
+  updatedAt: string;
 }
 
 export interface ResearchResult {
@@ -64,4 +107,12 @@ export interface ResearchResult {
 export interface GeneratorOptions {
   dryRun?: boolean;
   verbose?: boolean;
+  runId?: string;
+}
+
+export interface InterviewGeneratorOptions extends GeneratorOptions {
+  // Upload the interview's working draft as it stands instead of generating a new article.
+  // Only passed when an editor confirms it (chat's push, `interview --from-preview`);
+  // with dryRun, the preview replaces any working draft for the interview
+  useWorkingDraft?: boolean;
 }
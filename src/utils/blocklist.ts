@@ -5,11 +5,33 @@ import { dirname, join } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+interface Competitor {
+  name: string;
+  // Other spellings and names the brand goes by
+  aliases?: string[];
+  domains?: string[];
+  // For names that are also ordinary words ("Brides"): the name alone is only caught in
+  // "according to Brides"; aliases ("Brides magazine") and domains are caught anywhere
+  attributionOnly?: boolean;
+  // Phrases, in any case, where the name isn't the brand ("tie the knot")
+  exceptions?: string[];
+  // Overrides the default replacement for this brand
+  replacement?: string;
+}
+
 interface BlocklistConfig {
+  // Never linked to or used as research sources; competitors' domains are added to these
   domains: string[];
+  competitors?: Competitor[];
+  // `rewrite` replaces mentions in generated text, `report` only lists them. Links are always removed
+  mentionPolicy?: 'rewrite' | 'report';
+  // What a rewritten mention says instead
+  replacement?: string;
   description?: string;
 }
 
+const DEFAULT_REPLACEMENT = 'a leading wedding publication';
+
 let blocklist: BlocklistConfig | null = null;
 
 export function loadBlocklist(): BlocklistConfig {
@@ -27,40 +49,230 @@ export function loadBlocklist(): BlocklistConfig {
   }
 }
 
-export function isBlockedDomain(url: string): boolean {
-  const config = loadBlocklist();
-
+function isOnDomains(url: string, domains: string[]): boolean {
   try {
     const hostname = new URL(url).hostname.toLowerCase();
-    return config.domains.some(domain =>
-      hostname === domain || hostname.endsWith('.' + domain)
+    return domains.some(domain =>
+      hostname === domain.toLowerCase() || hostname.endsWith('.' + domain.toLowerCase())
     );
   } catch {
     return false;
   }
 }
 
+export function isBlockedDomain(url: string): boolean {
+  return isOnDomains(url, getBlockedDomains());
+}
+
 export function filterBlockedUrls<T extends { url: string }>(results: T[]): T[] {
   return results.filter(result => !isBlockedDomain(result.url));
 }
 
 export function getBlockedDomains(): string[] {
-  return loadBlocklist().domains;
+  const config = loadBlocklist();
+  const competitorDomains = (config.competitors || []).flatMap(competitor => competitor.domains || []);
+  return [...new Set([...config.domains, ...competitorDomains].map(domain => domain.toLowerCase()))];
 }
 
 /**
- * Remove any links to blocked domains from generated HTML.
- * Replaces <a> tags pointing to blocked domains with just their inner text.
+ * Competitor brand names, for telling the model what not to mention.
  */
-export function sanitizeBlockedLinks(html: string): string {
-  const config = loadBlocklist();
-  const domainPattern = config.domains.map(d => d.replace('.', '\\.')).join('|');
-  if (!domainPattern) return html;
+export function getCompetitorNames(): string[] {
+  return (loadBlocklist().competitors || []).map(competitor => competitor.name);
+}
 
-  // Remove <a> tags linking to blocked domains, keep inner text
-  const linkRegex = new RegExp(
-    `<a\\s[^>]*href=["'][^"']*(?:${domainPattern})[^"']*["'][^>]*>(.*?)<\\/a>`,
-    'gi'
+/**
+ * Competitors with their sites, e.g. "The Knot (theknot.com)", for article prompts.
+ */
+export function describeCompetitors(): string[] {
+  return (loadBlocklist().competitors || []).map(competitor =>
+    competitor.domains?.length ? `${competitor.name} (${competitor.domains.join(', ')})` : competitor.name
   );
-  return html.replace(linkRegex, '$1');
+}
+
+export type MentionKind = 'link' | 'url' | 'attribution' | 'mention';
+
+export interface CompetitorMention {
+  competitor: string;
+  // link: an <a> to their site; url: their address in the text; attribution: cited as a
+  // source ("according to The Knot"); mention: any other use of the name
+  kind: MentionKind;
+  text: string;
+}
+
+export interface CompetitorPolicyResult {
+  // The content with links removed and, under the rewrite policy, mentions replaced
+  content: string;
+  mentions: CompetitorMention[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The one citation form that's unambiguous for a name that is also an ordinary word
+const CITED_EXPLICITLY = String.raw`[Aa]ccording to\s+`;
+
+// Phrases that cite a name as a source, before or after it
+const CITED_BEFORE = String.raw`(?:[Aa]ccording to|[Rr]eported by|[Vv]ia|[Pp]er|[Dd]ata from|[Ss]urvey by|[Ss]tudy by|[Rr]esearch from)\s+`;
+const CITED_AFTER = String.raw`\s+(?:reports?|reported|found|finds|says|said|estimates?|surveys?|surveyed|stud(?:y|ies)|data|research|analysis)\b`;
+
+interface MentionPattern {
+  competitor: Competitor;
+  kind: MentionKind;
+  regex: RegExp;
+}
+
+interface Match {
+  pattern: MentionPattern;
+  start: number;
+  end: number;
+  text: string;
+}
+
+function namePattern(names: string[]): string {
+  // Longest first, so "Brides magazine" wins over "Brides"; case-sensitive, so "brides" the word is left alone
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return String.raw`\b(?:${alternatives})\b(?:'s|’s)?`;
+}
+
+// In order of precedence: an address beats an attribution, which beats a plain mention
+function buildPatterns(competitors: Competitor[]): MentionPattern[] {
+  const urls: MentionPattern[] = [];
+  const attributions: MentionPattern[] = [];
+  const names: MentionPattern[] = [];
+
+  for (const competitor of competitors) {
+    const domains = (competitor.domains || []).map(escapeRegExp);
+    if (domains.length > 0) {
+      // A path never ends in punctuation, so "see theknot.com/ideas." keeps its full stop
+      urls.push({
+        competitor,
+        kind: 'url',
+        regex: new RegExp(String.raw`(?:https?:\/\/)?(?:[\w-]+\.)*(?:${domains.join('|')})\b(?:\/[^\s<>"')\]]*[^\s<>"')\].,;:!?])?\/?`, 'gi'),
+      });
+    }
+
+    // Names that can only mean the brand: all of them, or just the aliases for an attributionOnly brand
+    const brandNames = competitor.attributionOnly ? competitor.aliases || [] : [competitor.name, ...(competitor.aliases || [])];
+    if (competitor.attributionOnly) {
+      attributions.push({
+        competitor,
+        kind: 'attribution',
+        regex: new RegExp(String.raw`(?<=${CITED_EXPLICITLY})${namePattern([competitor.name])}`, 'g'),
+      });
+    }
+    if (brandNames.length > 0) {
+      const name = namePattern(brandNames);
+      attributions.push({
+        competitor,
+        kind: 'attribution',
+        regex: new RegExp(String.raw`(?<=${CITED_BEFORE})${name}|${name}(?=${CITED_AFTER})`, 'g'),
+      });
+      names.push({ competitor, kind: 'mention', regex: new RegExp(name, 'g') });
+    }
+  }
+
+  return [...urls, ...attributions, ...names];
+}
+
+// Stretches of the text covered by a competitor's exceptions ("tie the knot")
+function exceptionRanges(text: string, competitor: Competitor): Array<{ start: number; end: number }> {
+  return (competitor.exceptions || []).flatMap(phrase =>
+    [...text.matchAll(new RegExp(String.raw`\b${escapeRegExp(phrase)}\b`, 'gi'))]
+      .map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+  );
+}
+
+function findMentions(text: string, patterns: MentionPattern[]): Match[] {
+  const matches: Match[] = [];
+  const exceptions = new Map<Competitor, Array<{ start: number; end: number }>>();
+
+  for (const pattern of patterns) {
+    if (!exceptions.has(pattern.competitor)) exceptions.set(pattern.competitor, exceptionRanges(text, pattern.competitor));
+    const skip = [...matches, ...exceptions.get(pattern.competitor)!];
+
+    for (const found of text.matchAll(pattern.regex)) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (skip.some(range => start < range.end && end > range.start)) continue;
+      const match = { pattern, start, end, text: found[0] };
+      matches.push(match);
+      skip.push(match);
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// Block tags end a sentence for capitalizing purposes; inline ones (<strong>) don't
+function visibleText(html: string): string {
+  return html
+    .replace(/<\/?(?:p|h[1-6]|li|ul|ol|blockquote|div|br|td|th|figcaption)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+}
+
+// "The Knot's" becomes "a leading wedding publication's", capitalized at the start of a sentence
+function replacementFor(match: Match, before: string, config: BlocklistConfig): string {
+  let replacement = match.pattern.competitor.replacement || config.replacement || DEFAULT_REPLACEMENT;
+  if (/(?:'s|’s)$/.test(match.text)) replacement += match.text.slice(-2);
+
+  if (/(?:^|[.!?]["”’]?\s+|\n\s*)$/.test(before)) {
+    replacement = replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * Apply the competitor policy to generated content: article HTML, titles and
+ * chat replies. Links to blocked domains are always replaced by their text.
+ * Competitor names, aliases and addresses elsewhere in the text are reported.
+ * Under the `rewrite` policy (the default) they are also replaced with a
+ * neutral phrase. Tags and attributes are left as they are.
+ */
+export function applyCompetitorPolicy(content: string): CompetitorPolicyResult {
+  const config = loadBlocklist();
+  const competitors = config.competitors || [];
+  const rewrite = config.mentionPolicy !== 'report';
+  const mentions: CompetitorMention[] = [];
+
+  const withoutLinks = content.replace(/<a\s[^>]*href=["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (link, href: string, inner: string) => {
+    if (!isBlockedDomain(href)) return link;
+    const competitor = competitors.find(c => isOnDomains(href, c.domains || []));
+    mentions.push({ competitor: competitor?.name || new URL(href).hostname, kind: 'link', text: href });
+    return inner;
+  });
+
+  const tags = [...withoutLinks.matchAll(/<[^>]*>/g)].map(tag => ({ start: tag.index ?? 0, end: (tag.index ?? 0) + tag[0].length }));
+  const matches = findMentions(withoutLinks, buildPatterns(competitors))
+    .filter(match => !tags.some(tag => match.start < tag.end && match.end > tag.start));
+
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    mentions.push({ competitor: match.pattern.competitor.name, kind: match.pattern.kind, text: match.text });
+    if (!rewrite) continue;
+    // "a Junebug wedding" loses its article too, rather than becoming "a a leading..."
+    const article = withoutLinks.slice(position, match.start).match(/\b(?:an?|the)\s+$/i)?.[0] || '';
+    const before = withoutLinks.slice(position, match.start - article.length);
+    result += before + replacementFor(match, visibleText(result + before), config);
+    position = match.end;
+  }
+
+  return { content: result + withoutLinks.slice(position), mentions };
+}
+
+/**
+ * One line summarizing what the policy found, e.g. "The Knot (attribution), Zola (mention) x2".
+ */
+export function formatCompetitorMentions(mentions: CompetitorMention[]): string {
+  const counts = new Map<string, number>();
+  for (const mention of mentions) {
+    const key = `${mention.competitor} (${mention.kind})`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts].map(([key, count]) => count > 1 ? `${key} x${count}` : key).join(', ');
 }
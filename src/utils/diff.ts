@@ -0,0 +1,86 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs the LCS table gets too big; fall back to a set comparison
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trimEnd()).filter(line => line.trim().length > 0);
+}
+
+/**
+ * Line-level diff of two texts (blank lines ignored), using a longest common subsequence.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    const inA = new Set(a);
+    const inB = new Set(b);
+    return [
+      ...a.filter(line => !inB.has(line)).map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: inA.has(text) ? 'same' as const : 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
+
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some(line => line.type !== 'same');
+}
+
+/**
+ * Short human-readable summary: counts plus the first few changed lines.
+ */
+export function summarizeDiff(diff: DiffLine[], maxLines: number = 8, maxLineLength: number = 140): string {
+  const added = diff.filter(line => line.type === 'added');
+  const removed = diff.filter(line => line.type === 'removed');
+
+  if (added.length === 0 && removed.length === 0) {
+    return 'No text changes';
+  }
+
+  const changed = diff
+    .filter(line => line.type !== 'same')
+    .slice(0, maxLines)
+    .map(line => {
+      const text = line.text.length > maxLineLength ? line.text.slice(0, maxLineLength - 3) + '...' : line.text;
+      return `${line.type === 'added' ? '+' : '-'} ${text}`;
+    });
+
+  const more = added.length + removed.length - changed.length;
+  return [
+    `${added.length} line(s) added, ${removed.length} line(s) removed`,
+    ...changed,
+    ...(more > 0 ? [`... and ${more} more changed line(s)`] : []),
+  ].join('\n');
+}
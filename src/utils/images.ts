@@ -0,0 +1,43 @@
+// Matches the image placeholder figures the prompts ask for:
+// <figure class="kg-card kg-image-card ..."><img src="[PLACEHOLDER]" ...>...</figure>
+const PLACEHOLDER_FIGURE_REGEX = /<figure[^>]*kg-image-card[^>]*>\s*<img[^>]*src=["']\[PLACEHOLDER\]["'][^>]*>[\s\S]*?<\/figure>/gi;
+
+export interface UploadedImage {
+  url: string;
+  alt?: string;
+  caption?: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function buildImageCard(image: UploadedImage): string {
+  const alt = escapeHtml(image.alt || '');
+
+  if (!image.caption) {
+    return `<figure class="kg-card kg-image-card"><img src="${image.url}" class="kg-image" alt="${alt}" loading="lazy"></figure>`;
+  }
+
+  return `<figure class="kg-card kg-image-card kg-card-hascaption"><img src="${image.url}" class="kg-image" alt="${alt}" loading="lazy"><figcaption><span style="white-space: pre-wrap;">${escapeHtml(image.caption)}</span></figcaption></figure>`;
+}
+
+export function countImagePlaceholders(html: string): number {
+  return (html.match(PLACEHOLDER_FIGURE_REGEX) || []).length;
+}
+
+/**
+ * Swap image placeholders for real image cards, in order.
+ * Placeholders left over once the images run out stay in place for an editor to fill.
+ */
+export function replaceImagePlaceholders(html: string, images: UploadedImage[]): string {
+  let index = 0;
+  return html.replace(PLACEHOLDER_FIGURE_REGEX, match => {
+    if (index >= images.length) return match;
+    return buildImageCard(images[index++]);
+  });
+}
@@ -0,0 +1,295 @@
+import type { Interview, InterviewQA } from '../types/index.js';
+
+export interface DocBlock {
+  type: 'heading' | 'paragraph' | 'list-item';
+  text: string;       // Plain text
+  formatted: string;  // Markdown-style: **bold**, *italic*, "## " headings, "- " list items
+  level: number;      // Heading level or list nesting level
+  allBold: boolean;
+}
+
+const QUESTION_LABELS = ['q', 'question'];
+const ANSWER_LABELS = ['a', 'answer'];
+const INTERVIEWER_LABELS = ['interviewer', 'smp', 'style me pretty', 'pretty perspectives'];
+
+// Preamble fields like "Name: Nigel Barker" or "Vendor Type: Venue"
+const NAME_FIELDS = ['name', 'vendor', 'vendor name', 'interviewee'];
+const BUSINESS_FIELDS = ['business', 'business name', 'company'];
+const TYPE_FIELDS = ['vendor type', 'type', 'role', 'category', 'specialty'];
+
+const LABEL_REGEX = /^([A-Za-z][\w.'&\- ]{0,40}?)\s*:\s*(.*)$/s;
+
+function formatRun(text: string, style: any): string {
+  const core = text.trim();
+  if (!core) return text;
+
+  let marked = core;
+  if (style?.italic) marked = `*${marked}*`;
+  if (style?.bold) marked = `**${marked}**`;
+
+  // Keep surrounding whitespace outside the markers
+  const leading = text.match(/^\s*/)![0];
+  const trailing = text.match(/\s*$/)![0];
+  return `${leading}${marked}${trailing}`;
+}
+
+function headingLevel(namedStyleType?: string): number {
+  if (namedStyleType === 'TITLE') return 1;
+  const match = namedStyleType?.match(/^HEADING_(\d)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Flatten Google Docs structural elements into ordered blocks,
+ * keeping headings, bold/italic runs and list items.
+ */
+export function toBlocks(content: any[]): DocBlock[] {
+  const blocks: DocBlock[] = [];
+
+  for (const element of content) {
+    if (element.paragraph) {
+      const runs = (element.paragraph.elements || [])
+        .filter((e: any) => e.textRun?.content)
+        .map((e: any) => ({
+          content: (e.textRun.content as string).replace(/\n$/, ''),
+          style: e.textRun.textStyle,
+        }));
+
+      const text = runs.map((r: any) => r.content).join('').trim();
+      if (!text) continue;
+
+      const formatted = runs.map((r: any) => formatRun(r.content, r.style)).join('').trim();
+      const allBold = runs.every((r: any) => !r.content.trim() || r.style?.bold);
+      const level = headingLevel(element.paragraph.paragraphStyle?.namedStyleType);
+
+      if (level > 0) {
+        blocks.push({ type: 'heading', text, formatted, level, allBold });
+      } else if (element.paragraph.bullet) {
+        blocks.push({
+          type: 'list-item',
+          text,
+          formatted,
+          level: element.paragraph.bullet.nestingLevel || 0,
+          allBold,
+        });
+      } else {
+        blocks.push({ type: 'paragraph', text, formatted, level: 0, allBold });
+      }
+    } else if (element.table) {
+      for (const row of element.table.tableRows || []) {
+        for (const cell of row.tableCells || []) {
+          if (cell.content) {
+            blocks.push(...toBlocks(cell.content));
+          }
+        }
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Blocks from a Markdown or plain text file (one paragraph per line),
+ * for interview and idea docs kept on disk instead of in Google Docs.
+ */
+export function markdownToBlocks(markdown: string): DocBlock[] {
+  const blocks: DocBlock[] = [];
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const listItem = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const formatted = (heading?.[2] ?? listItem?.[2] ?? line).trim();
+    const text = formatted.replace(/\*\*(.+?)\*\*/g, '$1').replace(/\*(.+?)\*/g, '$1');
+    const allBold = /^\*\*.+\*\*$/.test(formatted) && !formatted.slice(2, -2).includes('**');
+
+    if (heading) {
+      blocks.push({ type: 'heading', text, formatted, level: heading[1].length, allBold });
+    } else if (listItem) {
+      blocks.push({ type: 'list-item', text, formatted, level: Math.floor(listItem[1].length / 2), allBold });
+    } else {
+      blocks.push({ type: 'paragraph', text, formatted, level: 0, allBold });
+    }
+  }
+
+  return blocks;
+}
+
+function renderBlock(block: DocBlock): string {
+  if (block.type === 'heading') return `${'#'.repeat(block.level + 1)} ${block.formatted}`;
+  if (block.type === 'list-item') return `${'  '.repeat(block.level)}- ${block.formatted}`;
+  return block.formatted;
+}
+
+export function blocksToText(blocks: DocBlock[]): string {
+  return blocks.map(renderBlock).join('\n');
+}
+
+function splitLabel(text: string): { label: string; rest: string } | null {
+  const match = text.match(LABEL_REGEX);
+  if (!match || match[1].split(/\s+/).length > 4) return null;
+  return { label: match[1].trim(), rest: match[2].trim() };
+}
+
+function stripLabel(formatted: string): string {
+  // Drop a leading "Label:" from formatted text, which may sit inside a bold span
+  const colon = formatted.indexOf(':');
+  if (colon === -1) return formatted;
+
+  const markers = formatted.slice(0, colon).match(/^\*+/)?.[0] || '';
+  const rest = formatted.slice(colon + 1).trim();
+
+  if (!markers) return rest;
+  // "**Nigel:** answer" closes the span right after the label,
+  // "**Q: question**" keeps it open until the end
+  if (rest.startsWith(markers)) return rest.slice(markers.length).trim();
+  return `${markers}${rest}`;
+}
+
+/**
+ * A label only counts as a speaker when it starts two or more paragraphs,
+ * so one-off lines like "Tip: ..." inside an answer aren't mistaken for speakers.
+ */
+function findSpeakerLabels(blocks: DocBlock[]): Set<string> {
+  const counts = new Map<string, number>();
+
+  for (const block of blocks) {
+    const parsed = splitLabel(block.text);
+    if (!parsed) continue;
+    const key = parsed.label.toLowerCase();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const speakers = new Set<string>();
+  for (const [label, count] of counts) {
+    if (count >= 2 || QUESTION_LABELS.includes(label) || ANSWER_LABELS.includes(label)) {
+      speakers.add(label);
+    }
+  }
+  return speakers;
+}
+
+function isQuestionBlock(block: DocBlock, label: string | null): boolean {
+  if (label) {
+    return QUESTION_LABELS.includes(label) || INTERVIEWER_LABELS.includes(label);
+  }
+  // Top-level headings are usually the doc title rather than a question
+  if (block.type === 'heading') return block.level > 1 || block.text.endsWith('?');
+  if (block.allBold && block.type !== 'list-item') return true;
+  return block.type === 'paragraph' && block.text.endsWith('?') && block.text.length < 300;
+}
+
+export interface ParsedInterview {
+  qa: InterviewQA[];
+  fields: Record<string, string>;
+  content: string;
+}
+
+/**
+ * Parse interview blocks into ordered question/answer pairs.
+ * Questions are headings, fully bold paragraphs, "Q:"/interviewer-labelled lines
+ * or short paragraphs ending in "?". Everything until the next question is the answer.
+ * "Key: value" lines before the first question are collected as fields.
+ */
+export function parseInterviewBlocks(blocks: DocBlock[]): ParsedInterview {
+  const speakerLabels = findSpeakerLabels(blocks);
+  const fields: Record<string, string> = {};
+  const qa: InterviewQA[] = [];
+
+  let current: { question: string; answer: string[]; speaker?: string } | null = null;
+
+  const flush = () => {
+    if (current && current.answer.length > 0) {
+      qa.push({
+        question: current.question,
+        answer: current.answer.join('\n'),
+        speaker: current.speaker,
+      });
+    }
+  };
+
+  for (const block of blocks) {
+    const parsed = splitLabel(block.text);
+    const label = parsed && speakerLabels.has(parsed.label.toLowerCase())
+      ? parsed.label.toLowerCase()
+      : null;
+
+    if (isQuestionBlock(block, label)) {
+      flush();
+      current = { question: label ? parsed!.rest : block.text, answer: [] };
+      continue;
+    }
+
+    if (!current) {
+      // Preamble before the first question
+      if (parsed) fields[parsed.label.toLowerCase()] = parsed.rest;
+      continue;
+    }
+
+    if (label && !ANSWER_LABELS.includes(label) && !current.speaker) {
+      current.speaker = parsed!.label;
+    }
+
+    const body = label ? stripLabel(block.formatted) : block.formatted;
+    if (body) current.answer.push(renderBlock({ ...block, formatted: body }));
+  }
+  flush();
+
+  return { qa, fields, content: blocksToText(blocks) };
+}
+
+function findField(fields: Record<string, string>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (fields[key]) return fields[key];
+  }
+  return undefined;
+}
+
+/**
+ * Work out vendor name, business and type from the parsed doc, falling back to
+ * the "Interview - Vendor Name - Vendor Type" file title convention.
+ */
+export function inferVendorDetails(
+  parsed: ParsedInterview,
+  fileTitle: string
+): { vendorName?: string; vendorType?: string; businessName?: string } {
+  const titleParts = fileTitle.split(/[-–—]/).map(s => s.trim());
+
+  // The most frequent answering speaker is usually the vendor
+  const speakerCounts = new Map<string, number>();
+  for (const pair of parsed.qa) {
+    if (pair.speaker && pair.speaker.length > 1) {
+      speakerCounts.set(pair.speaker, (speakerCounts.get(pair.speaker) || 0) + 1);
+    }
+  }
+  const mainSpeaker = [...speakerCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return {
+    vendorName: findField(parsed.fields, NAME_FIELDS) || mainSpeaker || (titleParts.length >= 2 ? titleParts[1] : undefined),
+    vendorType: findField(parsed.fields, TYPE_FIELDS) || (titleParts.length >= 3 ? titleParts[2] : undefined),
+    businessName: findField(parsed.fields, BUSINESS_FIELDS),
+  };
+}
+
+/**
+ * Render an interview for prompts as labelled Q/A pairs.
+ * Falls back to the raw content when no pairs could be parsed.
+ */
+export function formatInterviewTranscript(interview: Interview): string {
+  if (!interview.qa || interview.qa.length === 0) return interview.content;
+
+  const speaker = interview.vendorName || 'Vendor';
+  return interview.qa
+    .map(pair => `Q: ${pair.question}\nA (${pair.speaker || speaker}): ${pair.answer}`)
+    .join('\n\n');
+}
+
+/**
+ * Only the vendor's own words, for quote and insight extraction.
+ */
+export function formatInterviewAnswers(interview: Interview): string {
+  if (!interview.qa || interview.qa.length === 0) return interview.content;
+  return interview.qa.map(pair => pair.answer).join('\n\n');
+}
@@ -0,0 +1,106 @@
+import { htmlToText } from './sections.js';
+
+export interface ExtractedPage {
+  title: string;
+  siteName?: string;
+  author?: string;
+  // As the page gives it (usually ISO 8601)
+  publishedAt?: string;
+  // Readable main text, one paragraph per entry
+  paragraphs: string[];
+}
+
+// Lines shorter than this are navigation, bylines, share buttons and the like
+const MIN_PARAGRAPH_LENGTH = 60;
+
+// Elements that never hold the article text
+const NON_CONTENT = /<(script|style|noscript|svg|iframe|template|form|nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi;
+
+function metaContent(html: string, key: string): string | undefined {
+  const tags = html.match(/<meta\s[^>]*>/gi) || [];
+  for (const tag of tags) {
+    const name = tag.match(/(?:name|property|itemprop)=["']([^"']+)["']/i)?.[1];
+    if (name?.toLowerCase() !== key) continue;
+    const content = tag.match(/content=["']([^"']*)["']/i)?.[1];
+    if (content?.trim()) return htmlToText(content);
+  }
+  return undefined;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// schema.org metadata, which many news and blog sites only publish as JSON-LD
+function jsonLdField(html: string, field: 'author' | 'datePublished'): string | undefined {
+  const blocks = [...html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
+
+  for (const [, json] of blocks) {
+    try {
+      const data: unknown = JSON.parse(json);
+      const items: unknown[] = (Array.isArray(data) ? data : [data]).flatMap((item: unknown) =>
+        isJsonObject(item) && Array.isArray(item['@graph']) ? item['@graph'] : [item]
+      );
+      for (const item of items) {
+        if (!isJsonObject(item)) continue;
+        const value = item[field];
+        if (!value) continue;
+        if (typeof value === 'string') return value;
+        const first: unknown = Array.isArray(value) ? value[0] : value;
+        if (typeof first === 'string') return first;
+        if (isJsonObject(first) && first.name) return String(first.name);
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return undefined;
+}
+
+// The <article> (or <main>) with the most text, falling back to the whole body
+function mainContent(html: string): string {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(NON_CONTENT, '');
+
+  for (const tag of ['article', 'main']) {
+    const candidates = [...cleaned.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))].map(m => m[1]);
+    if (candidates.length > 0) {
+      return candidates.sort((a, b) => htmlToText(b).length - htmlToText(a).length)[0];
+    }
+  }
+
+  return cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] || cleaned;
+}
+
+/**
+ * Pull the readable article out of a web page: its title, author, publish date
+ * and main text. Menus, headers, footers, sidebars and scripts are dropped, as
+ * are short lines that aren't prose.
+ */
+export function extractPage(html: string): ExtractedPage {
+  const title = metaContent(html, 'og:title')
+    || htmlToText(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '')
+    || htmlToText(html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || '');
+
+  const author = metaContent(html, 'author')
+    || metaContent(html, 'article:author')
+    || jsonLdField(html, 'author');
+
+  const publishedAt = metaContent(html, 'article:published_time')
+    || metaContent(html, 'datepublished')
+    || metaContent(html, 'date')
+    || jsonLdField(html, 'datePublished')
+    || html.match(/<time[^>]*datetime=["']([^"']+)["']/i)?.[1];
+
+  const paragraphs = htmlToText(mainContent(html))
+    .split('\n')
+    .map(line => line.replace(/^• /, ''))
+    .filter(line => line.length >= MIN_PARAGRAPH_LENGTH);
+
+  return {
+    title,
+    siteName: metaContent(html, 'og:site_name'),
+    author: author?.startsWith('http') ? undefined : author,
+    publishedAt,
+    paragraphs,
+  };
+}
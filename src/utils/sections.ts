@@ -0,0 +1,54 @@
+export interface ArticleSection {
+  title: string;
+  html: string;
+}
+
+// Block-level closing tags that end a line of readable text
+const BLOCK_END = /<\/(p|h[1-6]|li|blockquote|figcaption|figure|div)>|<hr\s*\/?>|<br\s*\/?>/gi;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;|&lsquo;/g, "'")
+    .replace(/&rdquo;|&ldquo;/g, '"');
+}
+
+/**
+ * Article HTML as plain text, one line per block, for reading and diffing in a terminal.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(BLOCK_END, match => `${match}\n`)
+      .replace(/<li[^>]*>/gi, '• ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Split an article at its H2 headings. Whatever comes before the first heading
+ * (TL;DR card and opening) is the "Intro" section.
+ */
+export function splitSections(html: string): ArticleSection[] {
+  const parts = html.split(/(?=<h2[\s>])/i);
+  const sections: ArticleSection[] = [];
+
+  for (const part of parts) {
+    const heading = part.match(/^<h2[^>]*>([\s\S]*?)<\/h2>/i);
+    if (heading) {
+      sections.push({ title: htmlToText(heading[1]), html: part });
+    } else if (htmlToText(part)) {
+      sections.push({ title: 'Intro', html: part });
+    }
+  }
+
+  return sections;
+}
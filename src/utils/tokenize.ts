@@ -0,0 +1,60 @@
+// Words too common to say anything about what a text is about
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for',
+  'from', 'get', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just',
+  'like', 'make', 'me', 'more', 'most', 'my', 'no', 'not', 'of', 'on', 'one', 'or', 'our', 'out',
+  'over', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your', 'he', 'her', 'here', 'him', 'his', 'she', 'should',
+  'such', 'too', 'very', 'really', 'each', 'every', 'other', 'own', 'only', 'while',
+]);
+
+/**
+ * Reduce a word to a rough stem, so "bookings", "booking" and "booked" (or "price" and
+ * "pricing") compare equal.
+ * Deliberately light: only common English suffixes, never below three letters.
+ */
+export function stem(word: string): string {
+  let stemmed = word;
+
+  // Plural first, then verb and adverb endings: "bookings" -> "booking" -> "book"
+  if (/ies$/.test(stemmed)) stemmed = stemmed.replace(/ies$/, 'y');
+  else if (/[^su]s$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  const ending = stemmed.match(/(ing|ed|ly)$/);
+  if (ending && stemmed.length - ending[1].length >= 3) {
+    stemmed = stemmed.slice(0, -ending[1].length);
+    // "planning" -> "plann" -> "plan"
+    if (/([^aeiouls])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+  }
+
+  // A silent e comes and goes with the suffix ("price", "pricing"), so it's always dropped
+  if (/[^aeiou]e$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/**
+ * Lowercased, stemmed content words in order of appearance, without stop words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Adjacent word pairs ("instagram reel"), which tell apart texts that share
+ * words but not phrases.
+ */
+export function shingles(tokens: string[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    pairs.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+}
@@ -8,33 +8,33 @@ import { dirname, join } from 'path';
 config();
 
 import { initGoogleClients, listInterviews, getAllInterviewsWithContent } from './services/google-docs.js';
-import { initGhostClient, getExistingArticles } from './services/ghost.js';
+import { initGhostClient } from './services/ghost.js';
+import { loadSimilarityIndex, formatMatch, type SimilarityIndex } from './services/duplicates.js';
 import { initAIClient, analyzeInterviewsForThemes, chat } from './services/ai.js';
-import { initResearchService, researchTopic, searchWeb } from './services/research.js';
+import { initResearchService, isResearchAvailable, searchWeb } from './services/research.js';
 import { generateFromInterview } from './generators/interview-profile.js';
 import { generateFromInsight } from './generators/insight-article.js';
 import { generateSEOContent } from './generators/seo-content.js';
-import type { ExistingArticle } from './types/index.js';
+import { scheduleOnCalendar, type ContentType } from './services/calendar.js';
+import { recordSource, isSourceHandled, needsSeeding, seedFromExistingArticles, newRunId } from './services/state-store.js';
+import { getSandboxDir, initSandbox } from './services/sandbox/setup.js';
+import { initFixtures } from './services/fixtures.js';
+import { startUsageRun, isBudgetExceeded, getRunUsage, formatUsage } from './services/usage.js';
+import type { ResearchResult } from './types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const PROCESSED_FILE = join(__dirname, '../config/processed-interviews.json');
-const WEEK_COUNTER_FILE = join(__dirname, '../config/week-counter.json');
+// Local stand-ins for Ghost, Drive and search (--sandbox or SANDBOX_DIR)
+const SANDBOX_DIR = getSandboxDir(process.argv.includes('--sandbox'));
 
-function loadProcessedInterviews(): Set<string> {
-  if (existsSync(PROCESSED_FILE)) {
-    const data = JSON.parse(readFileSync(PROCESSED_FILE, 'utf-8'));
-    return new Set(data.processed || []);
-  }
-  return new Set();
-}
+// Sandbox runs keep their own counter so they don't move the real topic rotation
+const WEEK_COUNTER_FILE = SANDBOX_DIR
+  ? join(SANDBOX_DIR, 'week-counter.json')
+  : join(__dirname, '../config/week-counter.json');
 
-function saveProcessedInterview(id: string): void {
-  const processed = loadProcessedInterviews();
-  processed.add(id);
-  writeFileSync(PROCESSED_FILE, JSON.stringify({ processed: Array.from(processed) }, null, 2));
-}
+// Put each new draft into its next open calendar slot instead of leaving it unscheduled
+const AUTO_SCHEDULE = process.env.AUTO_SCHEDULE === 'true';
 
 function getWeekCounter(): number {
   if (existsSync(WEEK_COUNTER_FILE)) {
@@ -51,64 +51,37 @@ function incrementWeekCounter(): number {
 }
 
 // Check if a topic is too similar to existing articles
-function isTopicAlreadyCovered(topic: string, existingArticles: ExistingArticle[]): boolean {
-  const topicLower = topic.toLowerCase();
-
-  // Key phrases that indicate the same topic
-  const topicKeyPhrases = extractKeyPhrases(topicLower);
-
-  for (const article of existingArticles) {
-    const titleLower = article.title.toLowerCase();
-    const titleKeyPhrases = extractKeyPhrases(titleLower);
-
-    // Check for exact key phrase matches
-    const matchingPhrases = topicKeyPhrases.filter(phrase =>
-      titleKeyPhrases.some(tp => tp === phrase || tp.includes(phrase) || phrase.includes(tp))
-    );
-
-    // Need at least 2 matching key phrases to consider it a duplicate
-    if (matchingPhrases.length >= 2) {
-      console.log(`  ⚠ Topic "${topic}" similar to existing: "${article.title}"`);
-      return true;
-    }
-
-    // Also check if titles are very similar (>60% word overlap)
-    const topicWords = topicLower.split(/\s+/).filter(w => w.length > 4);
-    const titleWords = titleLower.split(/\s+/).filter(w => w.length > 4);
-    const wordMatches = topicWords.filter(w => titleWords.includes(w)).length;
-
-    if (topicWords.length > 0 && wordMatches / topicWords.length > 0.6) {
-      console.log(`  ⚠ Topic "${topic}" similar to existing: "${article.title}"`);
-      return true;
-    }
+function isTopicAlreadyCovered(topic: string, index: SimilarityIndex): boolean {
+  const { isDuplicate, matches } = index.check({ title: topic });
+  if (isDuplicate) {
+    console.log(`  ⚠ Topic "${topic}" similar to existing: ${formatMatch(matches[0])}`);
   }
-  return false;
+  return isDuplicate;
 }
 
-function extractKeyPhrases(text: string): string[] {
-  const phrases: string[] = [];
-
-  // Extract meaningful 2-3 word phrases
-  const keyTerms = [
-    'instagram', 'tiktok', 'social media', 'marketing', 'pricing',
-    'client experience', 'vendor relationships', 'wedding photography',
-    'wedding planner', 'florist', 'venue', 'videography', 'catering',
-    'referrals', 'booking', 'leads', 'seo', 'email marketing',
-    'portfolio', 'branding', 'networking', 'collaboration', 'trends',
-    'gen z', 'millennial', 'ai tools', 'automation', 'systems'
-  ];
+async function addToCalendar(postId: string | undefined, contentType: ContentType): Promise<void> {
+  if (!AUTO_SCHEDULE || !postId) return;
 
-  for (const term of keyTerms) {
-    if (text.includes(term)) {
-      phrases.push(term);
-    }
+  try {
+    const { publishAt } = await scheduleOnCalendar(postId, contentType);
+    console.log(`  📅 Scheduled for ${publishAt.toLocaleString('en-US', { timeZone: 'America/New_York' })}`);
+  } catch (error) {
+    console.log(`  ⚠ Could not schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-
-  return phrases;
 }
 
 async function initServices(): Promise<boolean> {
   try {
+    // RECORD_FIXTURES / REPLAY_FIXTURES
+    initFixtures();
+
+    if (SANDBOX_DIR) {
+      initSandbox(SANDBOX_DIR);
+      initAIClient(process.env.ANTHROPIC_API_KEY!);
+      console.log(`Sandbox mode: using ${SANDBOX_DIR}`);
+      return true;
+    }
+
     initGhostClient({
       url: process.env.GHOST_URL!,
       key: process.env.GHOST_ADMIN_API_KEY!,
@@ -158,8 +131,15 @@ async function researchCurrentTrends(weekNumber: number): Promise<{ topic: strin
   const queryIndex = Math.floor((weekNumber / 2) % queries.length);
   const query = queries[queryIndex];
 
-  // Do actual research
-  const researchResults = await searchWeb(query, 5);
+  // Do actual research (without it, the topic comes from the model alone)
+  let researchResults: ResearchResult[] = [];
+  if (isResearchAvailable()) {
+    try {
+      researchResults = await searchWeb(query, 5);
+    } catch (error) {
+      console.log(`  ⚠ Research failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
   let research = '';
   if (researchResults.length > 0) {
@@ -204,14 +184,14 @@ Return ONLY a JSON object like: {"topic": "Your specific topic title", "keywords
   };
 }
 
-async function generateWeeklySEO(weekNumber: number, existingArticles: ExistingArticle[]): Promise<void> {
+async function generateWeeklySEO(weekNumber: number, existingArticles: SimilarityIndex): Promise<void> {
   console.log('\n📝 Generating SEO Article...');
 
   // Research current trends for a timely topic
-  const { topic, keywords, research } = await researchCurrentTrends(weekNumber);
+  let trends = await researchCurrentTrends(weekNumber);
 
   // Check if similar topic already exists
-  if (isTopicAlreadyCovered(topic, existingArticles)) {
+  if (isTopicAlreadyCovered(trends.topic, existingArticles)) {
     console.log('  Generating alternative topic...');
     // Try with different week number to get different topic
     const alt = await researchCurrentTrends(weekNumber + 10);
@@ -219,8 +199,10 @@ async function generateWeeklySEO(weekNumber: number, existingArticles: ExistingA
       console.log('  ⚠ Skipping SEO article - similar topics already covered');
       return;
     }
+    trends = alt;
   }
 
+  const { topic, keywords } = trends;
   console.log(`  Topic: ${topic}`);
   console.log(`  Keywords: ${keywords.join(', ')}`);
 
@@ -229,12 +211,13 @@ async function generateWeeklySEO(weekNumber: number, existingArticles: ExistingA
   if (result.success) {
     console.log(`  ✓ ${result.message}`);
     if (result.articleUrl) console.log(`  URL: ${result.articleUrl}`);
+    await addToCalendar(result.postId, 'seo');
   } else {
     console.log(`  ⚠ Failed: ${result.message}`);
   }
 }
 
-async function generateThemeArticle(existingArticles: ExistingArticle[]): Promise<void> {
+async function generateThemeArticle(existingArticles: SimilarityIndex): Promise<void> {
   console.log('\n🎨 Generating Theme-Based Article...');
 
   const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID!;
@@ -269,9 +252,6 @@ async function generateThemeArticle(existingArticles: ExistingArticle[]): Promis
 
   console.log(`  Theme: "${selectedTheme}"`);
 
-  // Research the theme for more depth
-  const researchContext = await researchTopic(selectedTheme + ' wedding industry');
-
   const result = await generateFromInsight(
     selectedTheme,
     'wedding industry leaders',
@@ -279,51 +259,31 @@ async function generateThemeArticle(existingArticles: ExistingArticle[]): Promis
   );
 
   if (result.success) {
-    // Verify the article has a title
-    if (result.message.includes('""') || result.message.includes(': ""')) {
-      console.log('  ⚠ Article created but title may be missing - check Ghost admin');
-    }
     console.log(`  ✓ ${result.message}`);
     if (result.articleUrl) console.log(`  URL: ${result.articleUrl}`);
+    await addToCalendar(result.postId, 'theme');
   } else {
     console.log(`  ⚠ Failed: ${result.message}`);
   }
 }
 
-async function generateNewInterviewArticle(existingArticles: ExistingArticle[]): Promise<void> {
+async function generateNewInterviewArticle(existingArticles: SimilarityIndex, runId: string): Promise<void> {
   console.log('\n👤 Checking for New Interviews...');
 
   const folderId = process.env.GOOGLE_INTERVIEWS_FOLDER_ID!;
   const interviews = await listInterviews(folderId);
-  const processed = loadProcessedInterviews();
-
-  // Get all existing article titles (including drafts) to check for duplicates
-  const existingTitles = existingArticles.map(a => a.title.toLowerCase());
-
-  // Find unprocessed interviews that don't already have articles
-  const newInterviews = interviews.filter(interview => {
-    // Skip if already processed
-    if (processed.has(interview.id)) {
-      return false;
-    }
 
-    // Extract vendor name from title (e.g., "Michele Interview" -> "Michele")
-    const vendorName = interview.title.replace(/\s*interview\s*/i, '').trim().toLowerCase();
-
-    // Check if any existing article mentions this vendor
-    const alreadyHasArticle = existingTitles.some(title =>
-      title.includes(vendorName) ||
-      (vendorName.length > 4 && title.split(/\s+/).some(word => word.includes(vendorName)))
+  // Interviews that got posts before the state store tracked them (checked once)
+  if (needsSeeding(['interview'])) {
+    const seeded = seedFromExistingArticles(
+      interviews.map(i => ({ id: i.id, title: i.title, type: 'interview' as const })),
+      existingArticles
     );
+    console.log(`  Marked ${seeded} interviews as already covered`);
+  }
 
-    if (alreadyHasArticle) {
-      console.log(`  ℹ Skipping "${interview.title}" - article already exists`);
-      saveProcessedInterview(interview.id); // Mark as processed so we don't check again
-      return false;
-    }
-
-    return true;
-  });
+  // Find interviews without a post (failed attempts are retried)
+  const newInterviews = interviews.filter(interview => !isSourceHandled(interview.id));
 
   if (newInterviews.length === 0) {
     console.log('  ℹ No new interviews to process');
@@ -334,17 +294,22 @@ async function generateNewInterviewArticle(existingArticles: ExistingArticle[]):
   const interview = newInterviews[0];
   console.log(`  Found new interview: ${interview.title}`);
 
-  const result = await generateFromInterview(interview.id, { verbose: true });
+  const result = await generateFromInterview(interview.id, { verbose: true, runId });
 
   if (result.success) {
-    // Check if title is missing
-    if (result.message.includes('""') || !result.message.match(/: ".+"/)) {
-      console.log('  ⚠ Warning: Article may have empty title - check Ghost admin');
-    }
     console.log(`  ✓ ${result.message}`);
     if (result.articleUrl) console.log(`  URL: ${result.articleUrl}`);
-    saveProcessedInterview(interview.id);
+    await addToCalendar(result.postId, 'interview');
   } else {
+    // An interview an existing post already covers isn't retried every week
+    recordSource({
+      sourceId: interview.id,
+      sourceType: 'interview',
+      sourceTitle: interview.title,
+      status: result.duplicate ? 'skipped' : 'failed',
+      runId,
+      note: result.message,
+    });
     console.log(`  ⚠ Failed: ${result.message}`);
   }
 }
@@ -362,25 +327,36 @@ async function runWeeklyGeneration(): Promise<void> {
   }
 
   const weekNumber = incrementWeekCounter();
-  console.log(`\nWeek #${weekNumber}`);
+  const runId = newRunId('weekly');
+  startUsageRun(runId, 'weekly');
+  console.log(`\nWeek #${weekNumber} (run ${runId})`);
 
   // Fetch ALL existing articles (drafts + published) to check for duplicates
   console.log('\n📋 Loading existing articles (drafts + published)...');
-  const existingArticles = await getExistingArticles();
-  console.log(`  Found ${existingArticles.length} existing articles`);
+  const existingArticles = await loadSimilarityIndex();
+  console.log(`  Found ${existingArticles.size} existing articles`);
 
   try {
-    // 1. SEO Article (with real trend research)
-    await generateWeeklySEO(weekNumber, existingArticles);
-
-    // 2. Theme-based article from interviews
-    await generateThemeArticle(existingArticles);
-
-    // 3. New interview article (only if there's a new one)
-    await generateNewInterviewArticle(existingArticles);
+    const steps = [
+      // 1. SEO Article (with real trend research)
+      () => generateWeeklySEO(weekNumber, existingArticles),
+      // 2. Theme-based article from interviews
+      () => generateThemeArticle(existingArticles),
+      // 3. New interview article (only if there's a new one)
+      () => generateNewInterviewArticle(existingArticles, runId),
+    ];
+
+    for (const step of steps) {
+      if (isBudgetExceeded()) {
+        console.log('\n⚠ Usage budget reached - skipping the remaining articles');
+        break;
+      }
+      await step();
+    }
 
     console.log('\n═══════════════════════════════════════════════════');
     console.log('  Weekly generation complete!');
+    console.log(`  Usage: ${formatUsage(getRunUsage())}`);
     console.log('  Check Ghost admin for new drafts.');
     console.log('═══════════════════════════════════════════════════\n');
 